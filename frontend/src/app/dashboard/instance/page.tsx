@@ -61,6 +61,7 @@ interface InstanceSettings {
     rejectCalls: boolean;
     readMessages: boolean;
     syncFullHistory: boolean;
+    autoTakeover: boolean;
     proxyHost?: string;
     proxyPort?: string;
     proxyUsername?: string;
@@ -88,6 +89,7 @@ function InstanceDetailContent() {
         rejectCalls: false,
         readMessages: false,
         syncFullHistory: false,
+        autoTakeover: false,
     });
     const [savingSettings, setSavingSettings] = useState(false);
 
@@ -454,7 +456,7 @@ function InstanceDetailContent() {
     }
 
     const isConnected = instance.status === 'connected';
-    const isConnecting = instance.status === 'connecting' || instance.status === 'qr';
+    const isConnecting = ['initializing', 'loading', 'qr', 'pairing', 'syncing'].includes(instance.status);
 
     return (
         <div className="min-h-screen p-8">
@@ -1087,6 +1089,27 @@ function InstanceDetailContent() {
                                         <ToggleLeft className="w-8 h-8 text-[var(--muted)]" />
                                     )}
                                 </div>
+
+                                {/* Auto Takeover */}
+                                <div
+                                    onClick={() => toggleSetting('autoTakeover')}
+                                    className="flex items-center justify-between p-4 rounded-lg border border-[var(--border)] hover:bg-[var(--card)] cursor-pointer transition-colors"
+                                >
+                                    <div className="flex items-center gap-3">
+                                        <div className="w-10 h-10 rounded-lg bg-[var(--primary)]/10 flex items-center justify-center">
+                                            <RefreshCw className="w-5 h-5 text-[var(--primary)]" />
+                                        </div>
+                                        <div>
+                                            <p className="font-medium">Retomar Sessão</p>
+                                            <p className="text-sm text-[var(--muted)]">Retoma a sessão automaticamente quando o WhatsApp Web é aberto em outro lugar</p>
+                                        </div>
+                                    </div>
+                                    {settings.autoTakeover ? (
+                                        <ToggleRight className="w-8 h-8 text-[var(--success)]" />
+                                    ) : (
+                                        <ToggleLeft className="w-8 h-8 text-[var(--muted)]" />
+                                    )}
+                                </div>
                             </div>
 
                             {savingSettings && (
@@ -154,8 +154,7 @@ function InstancesContent() {
                                     <div
                                         className={`w-3 h-3 rounded-full ${instance.status === 'connected'
                                             ? 'status-connected'
-                                            : instance.status === 'connecting' ||
-                                                instance.status === 'qr'
+                                            : ['initializing', 'loading', 'qr', 'pairing', 'syncing'].includes(instance.status)
                                                 ? 'status-connecting'
                                                 : 'status-disconnected'
                                             }`}
@@ -189,8 +188,7 @@ function InstancesContent() {
                                     <span
                                         className={`capitalize ${instance.status === 'connected'
                                             ? 'text-[var(--success)]'
-                                            : instance.status === 'connecting' ||
-                                                instance.status === 'qr'
+                                            : ['initializing', 'loading', 'qr', 'pairing', 'syncing'].includes(instance.status)
                                                 ? 'text-[var(--warning)]'
                                                 : 'text-[var(--danger)]'
                                             }`}
@@ -233,7 +233,7 @@ export default function DashboardPage() {
                                                 </div>
                                                 <div className={`absolute -bottom-1 -right-1 status-dot ring-4 ring-[var(--card)] ${
                                                     instance.status === 'connected' ? 'status-connected' :
-                                                    instance.status === 'connecting' || instance.status === 'qr' ? 'status-connecting' :
+                                                    ['initializing', 'loading', 'qr', 'pairing', 'syncing'].includes(instance.status) ? 'status-connecting' :
                                                     'status-disconnected'
                                                 }`} />
                                             </div>
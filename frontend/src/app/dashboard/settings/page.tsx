@@ -150,6 +150,9 @@ Body: {
   "messageId": "ID_DA_MENSAGEM",
   "reaction": "❤️"
 }
+Obs: "messageId" aceita o ID serializado ("true_5511999999999@c.us_3EB0...")
+ou um objeto { "chatId": "5511999999999", "id": "3EB0...", "fromMe": true }.
+Uma reação vazia ("") remove a reação atual.
 
 POST /message/edit
 Descrição: Edita o conteúdo de uma mensagem de texto enviada anteriormente
@@ -326,7 +329,8 @@ Body: {
   "ignoreGroups": false,   // Ignora mensagens de grupos
   "rejectCalls": true,     // Rejeita ligações automaticamente
   "readMessages": false,   // Marca mensagens como lidas automaticamente
-  "syncFullHistory": false // Sincroniza histórico completo ao conectar
+  "syncFullHistory": false, // Sincroniza histórico completo ao conectar
+  "autoTakeover": false     // Retoma a sessão quando aberta em outro lugar ("usar aqui")
 }
 
 ================================================================================
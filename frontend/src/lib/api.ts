@@ -170,6 +170,7 @@ class ApiClient {
         rejectCalls?: boolean;
         readMessages?: boolean;
         syncFullHistory?: boolean;
+        autoTakeover?: boolean;
         proxyHost?: string;
         proxyPort?: string;
         proxyUsername?: string;
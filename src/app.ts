@@ -0,0 +1,161 @@
+import { serveStatic } from '@hono/node-server/serve-static';
+import { Hono } from 'hono';
+import { cors } from 'hono/cors';
+import { logger as honoLogger } from 'hono/logger';
+import { prettyJSON } from 'hono/pretty-json';
+import { secureHeaders } from 'hono/secure-headers';
+import { env } from './config/env.js';
+import { prisma } from './lib/prisma.js';
+import { getWaJsInfo } from './lib/wa-js.js';
+import { errorHandler } from './middlewares/error.js';
+import { cancelOnDisconnect } from './middlewares/request-signal.js';
+
+// Routes
+import { authRoutes } from './modules/auth/auth.routes.js';
+import { adminRoutes } from './modules/admin/admin.routes.js';
+import { instanceRoutes } from './modules/instance/instance.routes.js';
+import { messagesRoutes } from './modules/messages/messages.routes.js';
+import { historyRoutes } from './modules/history/history.routes.js';
+import { contactsRoutes } from './modules/contacts/contacts.routes.js';
+import { groupsRoutes } from './modules/groups/groups.routes.js';
+import { chatsRoutes } from './modules/chats/chats.routes.js';
+import { labelsRoutes } from './modules/labels/labels.routes.js';
+import { profileRoutes } from './modules/profile/profile.routes.js';
+import { campaignsRoutes } from './modules/campaigns/campaigns.routes.js';
+import { webhooksRoutes } from './modules/webhooks/webhooks.routes.js';
+import { cluster } from './lib/cluster.js';
+
+// Create Hono app
+const app = new Hono();
+
+// ================================
+// Global Middlewares
+// ================================
+
+app.use('*', cors({
+    origin: '*',
+    allowMethods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS', 'HEAD'],
+    allowHeaders: ['Content-Type', 'Authorization', 'X-Instance-Token', 'X-Admin-Token', 'X-Session-Passphrase', 'Accept', 'Origin', 'X-Requested-With'],
+    exposeHeaders: ['Content-Length', 'X-Request-Id'],
+    maxAge: 86400,
+    credentials: false,
+}));
+
+// Explicit OPTIONS handler for preflight requests
+app.options('*', () => {
+    return new Response(null, { status: 204 });
+});
+
+app.use('*', secureHeaders());
+app.use('*', prettyJSON());
+app.use('*', cancelOnDisconnect);
+
+if (env.isDev) {
+    app.use('*', honoLogger());
+}
+
+// ================================
+// Error Handler
+// ================================
+
+app.onError(errorHandler);
+
+// ================================
+// Health Check
+// ================================
+
+app.get('/', (c) => {
+    return c.json({
+        name: 'WhatsApp API',
+        version: '1.0.0',
+        status: 'running',
+        docs: '/docs',
+    });
+});
+
+app.get('/health', async (c) => {
+    try {
+        await prisma.$queryRaw`SELECT 1`;
+        return c.json({
+            status: 'healthy',
+            database: 'connected',
+            waJs: getWaJsInfo(),
+            node: cluster.enabled ? { id: cluster.nodeId, instances: cluster.getOwnedInstances().length } : undefined,
+            uptime: process.uptime(),
+        });
+    } catch (error) {
+        return c.json({
+            status: 'unhealthy',
+            database: 'disconnected',
+            waJs: getWaJsInfo(),
+            error: error instanceof Error ? error.message : 'Unknown error',
+        }, 503);
+    }
+});
+
+// ================================
+// API Routes
+// ================================
+
+// Auth routes (public)
+app.route('/auth', authRoutes);
+
+// Admin routes
+app.route('/admin', adminRoutes);
+
+// Instance routes
+app.route('/instance', instanceRoutes);
+
+// Message routes (via instance token)
+app.route('/message', messagesRoutes);
+
+// Stored message history (via instance token)
+app.route('/messages', historyRoutes);
+
+// Contacts routes (via instance token)
+app.route('/contacts', contactsRoutes);
+
+// Groups routes (via instance token)
+app.route('/group', groupsRoutes);
+app.route('/groups', groupsRoutes);
+
+// Chats routes (via instance token)
+app.route('/chat', chatsRoutes);
+app.route('/chats', chatsRoutes);
+
+// Labels routes (via instance token)
+app.route('/labels', labelsRoutes);
+
+// Profile routes (via instance token)
+app.route('/profile', profileRoutes);
+
+// Campaign routes
+app.route('/campaign', campaignsRoutes);
+app.route('/campaigns', campaignsRoutes);
+
+// Webhook routes
+app.route('/webhook', webhooksRoutes);
+app.route('/sse', webhooksRoutes);
+
+// ================================
+// Static Files (Frontend)
+// ================================
+
+app.use('/*', serveStatic({ root: './public' }));
+
+// SPA Fallback
+app.get('*', serveStatic({ path: './public/index.html' }));
+
+// ================================
+// 404 Handler
+// ================================
+
+app.notFound((c) => {
+    return c.json({
+        success: false,
+        error: 'Not Found',
+        path: c.req.path,
+    }, 404);
+});
+
+export { app };
@@ -1,4 +1,5 @@
 import 'dotenv/config';
+import { hostname } from 'os';
 import { z } from 'zod';
 
 const envSchema = z.object({
@@ -27,10 +28,54 @@ const envSchema = z.object({
     WEBHOOK_TIMEOUT: z.string().default('30000'),
     WEBHOOK_RETRY_ATTEMPTS: z.string().default('3'),
 
+    // Cluster (several API nodes sharing Redis)
+    CLUSTER_ENABLED: z.string().default('false'),
+    CLUSTER_NODE_ID: z.string().optional(), // defaults to <hostname>-<pid>
+    CLUSTER_NODE_URL: z.string().url().optional(), // address other nodes use to reach this one
+    CLUSTER_SECRET: z.string().min(16).optional(), // authenticates forwarded calls; required with CLUSTER_ENABLED
+    CLUSTER_LEASE_TTL: z.string().default('30000'),
+    CLUSTER_REBALANCE_INTERVAL: z.string().default('30000'),
+
     // WhatsApp
+    WA_ENGINE: z.enum(['playwright', 'fake']).default('playwright'), // fake = in-memory, for tests/dev
+    WA_FAKE_AUTO_SCAN: z.string().default('true'), // fake engine links right after showing the QR
     WA_SESSION_PATH: z.string().default('./sessions'),
+    WA_SESSION_STORE: z.enum(['filesystem', 'postgres', 'redis']).default('filesystem'),
+    WA_SESSION_KEY: z.string().min(32).optional(), // encrypts stored sessions; falls back to JWT_SECRET
     WA_MAX_INSTANCES: z.string().default('10'),
-});
+    WA_BROWSER_POOL_SIZE: z.string().default('1'), // browser processes per engine
+    WA_BROWSER_ENGINE: z.enum(['chromium', 'webkit', 'firefox']).default('webkit'), // for instances without their own engine
+    WA_USER_AGENT: z.string().optional(), // defaults to a desktop UA matching the engine
+    WA_LOCALE: z.string().default('pt-BR'),
+    WA_TIMEZONE: z.string().optional(), // IANA zone, e.g. America/Sao_Paulo; defaults to the server's
+    WA_CONTEXTS_PER_BROWSER: z.string().default('10'),
+    WA_QUEUE_CONCURRENCY: z.string().default('1'), // page commands running at once per instance
+    WA_QUEUE_MAX_DEPTH: z.string().default('100'), // waiting commands before answering 503 BUSY
+    WA_COMMAND_TIMEOUT: z.string().default('30000'),
+    WA_MONITOR_INTERVAL: z.string().default('60000'), // resource sampling per instance
+    WA_MONITOR_STRIKES: z.string().default('3'), // consecutive samples over a limit before restarting
+    WA_MAX_HEAP_MB: z.string().default('768'), // 0 disables (heap is only reported by Chromium)
+    WA_MAX_DOM_NODES: z.string().default('150000'), // 0 disables
+    WA_MAX_EVALUATE_LATENCY: z.string().default('15000'), // ms, 0 disables
+    WA_DIAGNOSTICS_BUFFER_SIZE: z.string().default('100'), // console errors / failed requests kept per instance
+    WA_BLOCKING_POLICY: z.enum(['minimal', 'balanced', 'full']).default('balanced'), // for instances without their own policy
+    WA_MESSAGE_STORE: z.string().default('true'), // persist every sent/received message for GET /messages
+    WA_MEDIA_MAX_SIZE: z.string().default('67108864'), // 64MB
+    WA_MEDIA_TIMEOUT: z.string().default('60000'),
+    WA_JS_VERSION: z.string().default('3.23.4'), // must match the installed @wppconnect/wa-js
+    WA_JS_CHECKSUM: z.string().optional(), // sha256 (hex) of the script
+    WA_JS_PATH: z.string().optional(), // use a custom wa-js build instead of the npm package
+    WA_QR_MAX_CYCLES: z.string().default('5'), // QR/pairing codes shown before giving up
+    WA_LOAD_TIMEOUT: z.string().default('120000'),
+    WA_SYNC_TIMEOUT: z.string().default('300000'),
+    WA_RECONNECT_BASE_DELAY: z.string().default('2000'),
+    WA_RECONNECT_MAX_DELAY: z.string().default('300000'),
+    WA_RECONNECT_MAX_ATTEMPTS: z.string().default('10'),
+}).refine(
+    // Forwarded requests carry the secret in a header, so it must not double as admin credentials
+    (data) => data.CLUSTER_ENABLED !== 'true' || !!data.CLUSTER_SECRET,
+    { message: 'CLUSTER_SECRET is required when CLUSTER_ENABLED=true', path: ['CLUSTER_SECRET'] },
+);
 
 const parsed = envSchema.safeParse(process.env);
 
@@ -60,8 +105,47 @@ export const env = {
     webhookTimeout: parseInt(parsed.data.WEBHOOK_TIMEOUT),
     webhookRetryAttempts: parseInt(parsed.data.WEBHOOK_RETRY_ATTEMPTS),
 
+    clusterEnabled: parsed.data.CLUSTER_ENABLED === 'true',
+    clusterNodeId: parsed.data.CLUSTER_NODE_ID || `${hostname()}-${process.pid}`,
+    clusterNodeUrl: parsed.data.CLUSTER_NODE_URL || `http://${hostname()}:${parsed.data.PORT}`,
+    clusterSecret: parsed.data.CLUSTER_SECRET ?? '',
+    clusterLeaseTtl: parseInt(parsed.data.CLUSTER_LEASE_TTL),
+    clusterRebalanceInterval: parseInt(parsed.data.CLUSTER_REBALANCE_INTERVAL),
+
+    waEngine: parsed.data.WA_ENGINE,
+    waFakeAutoScan: parsed.data.WA_FAKE_AUTO_SCAN === 'true',
     waSessionPath: parsed.data.WA_SESSION_PATH,
+    waSessionStore: parsed.data.WA_SESSION_STORE,
+    waSessionKey: parsed.data.WA_SESSION_KEY || parsed.data.JWT_SECRET,
     waMaxInstances: parseInt(parsed.data.WA_MAX_INSTANCES),
+    waBrowserPoolSize: parseInt(parsed.data.WA_BROWSER_POOL_SIZE),
+    waBrowserEngine: parsed.data.WA_BROWSER_ENGINE,
+    waUserAgent: parsed.data.WA_USER_AGENT,
+    waLocale: parsed.data.WA_LOCALE,
+    waTimezone: parsed.data.WA_TIMEZONE,
+    waContextsPerBrowser: parseInt(parsed.data.WA_CONTEXTS_PER_BROWSER),
+    waQueueConcurrency: parseInt(parsed.data.WA_QUEUE_CONCURRENCY),
+    waQueueMaxDepth: parseInt(parsed.data.WA_QUEUE_MAX_DEPTH),
+    waCommandTimeout: parseInt(parsed.data.WA_COMMAND_TIMEOUT),
+    waMonitorInterval: parseInt(parsed.data.WA_MONITOR_INTERVAL),
+    waMonitorStrikes: parseInt(parsed.data.WA_MONITOR_STRIKES),
+    waMaxHeapMb: parseInt(parsed.data.WA_MAX_HEAP_MB),
+    waMaxDomNodes: parseInt(parsed.data.WA_MAX_DOM_NODES),
+    waMaxEvaluateLatency: parseInt(parsed.data.WA_MAX_EVALUATE_LATENCY),
+    waDiagnosticsBufferSize: parseInt(parsed.data.WA_DIAGNOSTICS_BUFFER_SIZE),
+    waBlockingPolicy: parsed.data.WA_BLOCKING_POLICY,
+    waMessageStore: parsed.data.WA_MESSAGE_STORE === 'true',
+    waMediaMaxSize: parseInt(parsed.data.WA_MEDIA_MAX_SIZE),
+    waMediaTimeout: parseInt(parsed.data.WA_MEDIA_TIMEOUT),
+    waJsVersion: parsed.data.WA_JS_VERSION,
+    waJsChecksum: parsed.data.WA_JS_CHECKSUM?.toLowerCase(),
+    waJsPath: parsed.data.WA_JS_PATH,
+    waQrMaxCycles: parseInt(parsed.data.WA_QR_MAX_CYCLES),
+    waLoadTimeout: parseInt(parsed.data.WA_LOAD_TIMEOUT),
+    waSyncTimeout: parseInt(parsed.data.WA_SYNC_TIMEOUT),
+    waReconnectBaseDelay: parseInt(parsed.data.WA_RECONNECT_BASE_DELAY),
+    waReconnectMaxDelay: parseInt(parsed.data.WA_RECONNECT_MAX_DELAY),
+    waReconnectMaxAttempts: parseInt(parsed.data.WA_RECONNECT_MAX_ATTEMPTS),
 };
 
 export type Env = typeof env;
@@ -0,0 +1,203 @@
+import { chromium, firefox, webkit, Browser, BrowserType } from 'playwright';
+import { EventEmitter } from 'events';
+import { logger } from './logger.js';
+
+export const BROWSER_ENGINES = ['chromium', 'webkit', 'firefox'] as const;
+
+export type BrowserEngine = typeof BROWSER_ENGINES[number];
+
+const LAUNCHERS: Record<BrowserEngine, BrowserType> = { chromium, webkit, firefox };
+
+// Desktop user agents matching each engine (the headless defaults give the browser away)
+export const DEFAULT_USER_AGENTS: Record<BrowserEngine, string> = {
+    chromium: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36',
+    webkit: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.4 Safari/605.1.15',
+    firefox: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64; rv:125.0) Gecko/20100101 Firefox/125.0',
+};
+
+interface BrowserShard {
+    index: number;
+    engine: BrowserEngine;
+    browser: Browser | null;
+    launching?: Promise<Browser>;
+    instances: Set<string>;
+    draining: boolean;
+    launchedAt?: Date;
+}
+
+export interface BrowserShardStats {
+    index: number;
+    engine: BrowserEngine;
+    running: boolean;
+    draining: boolean;
+    contexts: number;
+    capacity: number;
+    instances: string[];
+    launchedAt?: Date;
+}
+
+/**
+ * Pool of browser processes, each hosting at most `maxContexts` instance contexts.
+ * Every engine gets its own `size` shards, created the first time an instance asks for it.
+ * A crashing browser only takes down the instances placed on its own shard.
+ *
+ * Emits `disconnected` (shardIndex, instanceIds) when a browser goes away unexpectedly.
+ */
+export class BrowserPool extends EventEmitter {
+    private shards: BrowserShard[] = [];
+    private placement: Map<string, number> = new Map();
+
+    constructor(private size: number, private maxContexts: number) {
+        super();
+    }
+
+    /**
+     * Reserve a slot for the instance on the least-loaded shard of the engine and return its browser
+     */
+    async acquire(instanceId: string, engine: BrowserEngine): Promise<{ browser: Browser; shard: number }> {
+        let shard = this.getShard(instanceId);
+
+        // The instance switched engines since it was placed
+        if (shard && shard.engine !== engine) {
+            this.release(instanceId);
+            shard = undefined;
+        }
+
+        if (!shard) {
+            if (!this.shards.some((s) => s.engine === engine)) this.addShards(engine);
+
+            const candidates = this.shards
+                .filter((s) => s.engine === engine && !s.draining && s.instances.size < this.maxContexts)
+                .sort((a, b) => a.instances.size - b.instances.size || a.index - b.index);
+
+            shard = candidates[0];
+            if (!shard) throw new Error(`Browser pool is full (${engine})`);
+
+            shard.instances.add(instanceId);
+            this.placement.set(instanceId, shard.index);
+        }
+
+        try {
+            const browser = await this.launch(shard);
+            logger.info({ instanceId, shard: shard.index, engine, contexts: shard.instances.size }, 'Instance placed on browser');
+            return { browser, shard: shard.index };
+        } catch (error) {
+            this.release(instanceId);
+            throw error;
+        }
+    }
+
+    /**
+     * Free the instance's slot (its context was closed)
+     */
+    release(instanceId: string) {
+        const shard = this.getShard(instanceId);
+        if (!shard) return;
+
+        shard.instances.delete(instanceId);
+        this.placement.delete(instanceId);
+    }
+
+    getShardIndex(instanceId: string) {
+        return this.placement.get(instanceId);
+    }
+
+    getShardInstances(index: number) {
+        return [...(this.shards[index]?.instances ?? [])];
+    }
+
+    hasShard(index: number) {
+        return index >= 0 && index < this.shards.length;
+    }
+
+    /**
+     * Stop placing new instances on the shard
+     */
+    drain(index: number) {
+        const shard = this.shards[index];
+        if (!shard) throw new Error(`Browser shard ${index} not found`);
+
+        shard.draining = true;
+        logger.info({ shard: index }, 'Browser draining');
+    }
+
+    /**
+     * Close a drained shard's browser; the next placement relaunches it
+     */
+    async recycle(index: number) {
+        const shard = this.shards[index];
+        if (!shard) throw new Error(`Browser shard ${index} not found`);
+
+        const browser = shard.browser;
+        shard.browser = null;
+        shard.launching = undefined;
+
+        if (browser) {
+            // Intentional close, not a crash
+            browser.removeAllListeners('disconnected');
+            await browser.close().catch(() => { });
+        }
+
+        shard.draining = false;
+        shard.launchedAt = undefined;
+        logger.info({ shard: index }, 'Browser recycled');
+    }
+
+    getStats(): BrowserShardStats[] {
+        return this.shards.map((shard) => ({
+            index: shard.index,
+            engine: shard.engine,
+            running: !!shard.browser,
+            draining: shard.draining,
+            contexts: shard.instances.size,
+            capacity: this.maxContexts,
+            instances: [...shard.instances],
+            launchedAt: shard.launchedAt,
+        }));
+    }
+
+    private addShards(engine: BrowserEngine) {
+        for (let i = 0; i < Math.max(1, this.size); i++) {
+            this.shards.push({
+                index: this.shards.length,
+                engine,
+                browser: null,
+                instances: new Set<string>(),
+                draining: false,
+            });
+        }
+    }
+
+    private getShard(instanceId: string) {
+        const index = this.placement.get(instanceId);
+        return index === undefined ? undefined : this.shards[index];
+    }
+
+    private async launch(shard: BrowserShard): Promise<Browser> {
+        if (shard.browser) return shard.browser;
+        if (shard.launching) return shard.launching;
+
+        logger.info({ shard: shard.index, engine: shard.engine }, 'Launching browser for shard...');
+        shard.launching = LAUNCHERS[shard.engine].launch({ headless: true }).then((browser) => {
+            shard.browser = browser;
+            shard.launching = undefined;
+            shard.launchedAt = new Date();
+
+            // Handle browser crash/close: every context on this shard went with it
+            browser.on('disconnected', () => {
+                if (shard.browser !== browser) return;
+                logger.error({ shard: shard.index }, 'Browser disconnected! Resetting shard...');
+                shard.browser = null;
+                shard.launchedAt = undefined;
+                this.emit('disconnected', shard.index, [...shard.instances]);
+            });
+
+            return browser;
+        }).catch((error) => {
+            shard.launching = undefined;
+            throw error;
+        });
+
+        return shard.launching;
+    }
+}
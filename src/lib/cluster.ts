@@ -0,0 +1,167 @@
+import { EventEmitter } from 'events';
+import { env } from '../config/env.js';
+import { logger } from './logger.js';
+import { redis } from './redis.js';
+
+// Instance ownership across API nodes, through renewable Redis leases
+
+export const CLUSTER_TOKEN_HEADER = 'X-Cluster-Token';
+
+export interface NodeInfo {
+    nodeId: string;
+    url: string;
+}
+
+// Only touch the key while we still hold it
+const RENEW_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+    return redis.call('pexpire', KEYS[1], ARGV[2])
+end
+return 0`;
+
+const RELEASE_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+    return redis.call('del', KEYS[1])
+end
+return 0`;
+
+const leaseKey = (instanceId: string) => `wa:lease:${instanceId}`;
+const nodeKey = (nodeId: string) => `wa:node:${nodeId}`;
+
+/**
+ * A node owns an instance while it holds `wa:lease:<id>` (renewed every third of the TTL)
+ * and advertises its URL under `wa:node:<nodeId>`. A dead node's leases expire and
+ * the instances are claimed again by the rebalancer on the surviving nodes.
+ *
+ * With CLUSTER_ENABLED=false every call is a no-op and this node owns everything.
+ *
+ * Emits `lost` (instanceId) when a lease could not be renewed.
+ */
+class Cluster extends EventEmitter {
+    readonly enabled = env.clusterEnabled;
+    readonly nodeId = env.clusterNodeId;
+    readonly nodeUrl = env.clusterNodeUrl;
+
+    private owned: Set<string> = new Set();
+    private renewInterval?: NodeJS.Timeout;
+
+    async start() {
+        if (!this.enabled) return;
+
+        await this.heartbeat();
+        this.renewInterval = setInterval(() => {
+            this.renew().catch((error) => logger.error({ error }, 'Failed to renew cluster leases'));
+        }, Math.floor(env.clusterLeaseTtl / 3));
+
+        logger.info({ nodeId: this.nodeId, url: this.nodeUrl }, 'Cluster node started');
+    }
+
+    // Hand every lease back so other nodes pick the instances up right away
+    async stop() {
+        if (!this.enabled) return;
+
+        clearInterval(this.renewInterval);
+        await Promise.all([...this.owned].map((instanceId) => this.release(instanceId)));
+        await redis.del(nodeKey(this.nodeId));
+    }
+
+    /**
+     * Take (or keep) ownership of the instance. False when another node holds it.
+     */
+    async claim(instanceId: string): Promise<boolean> {
+        if (!this.enabled) return true;
+
+        const key = leaseKey(instanceId);
+        const acquired = await redis.set(key, this.nodeId, 'PX', env.clusterLeaseTtl, 'NX');
+        const renewed = !acquired && Number(await redis.eval(RENEW_SCRIPT, 1, key, this.nodeId, env.clusterLeaseTtl)) === 1;
+
+        if (!acquired && !renewed) return false;
+
+        if (acquired) logger.info({ instanceId, nodeId: this.nodeId }, 'Instance lease acquired');
+        this.owned.add(instanceId);
+        return true;
+    }
+
+    async release(instanceId: string) {
+        if (!this.enabled || !this.owned.delete(instanceId)) return;
+
+        await redis.eval(RELEASE_SCRIPT, 1, leaseKey(instanceId), this.nodeId).catch((error: Error) => {
+            logger.error({ instanceId, error }, 'Failed to release instance lease');
+        });
+        logger.info({ instanceId, nodeId: this.nodeId }, 'Instance lease released');
+    }
+
+    /**
+     * The node currently holding the instance, or null when nobody (reachable) does
+     */
+    async getOwner(instanceId: string): Promise<NodeInfo | null> {
+        if (!this.enabled) return null;
+
+        const nodeId: string | null = await redis.get(leaseKey(instanceId));
+        if (!nodeId) return null;
+        if (nodeId === this.nodeId) return { nodeId, url: this.nodeUrl };
+
+        const url: string | null = await redis.get(nodeKey(nodeId));
+        return url ? { nodeId, url } : null;
+    }
+
+    // True when this node should serve the instance
+    async isLocal(instanceId: string) {
+        const owner = await this.getOwner(instanceId);
+        return !owner || owner.nodeId === this.nodeId;
+    }
+
+    getOwnedInstances() {
+        return [...this.owned];
+    }
+
+    /**
+     * Replay a request on the owner node, authenticated with the cluster secret
+     */
+    async forward(request: Request, owner: NodeInfo): Promise<Response> {
+        const source = new URL(request.url);
+        const target = new URL(source.pathname + source.search, owner.url);
+
+        const headers = new Headers(request.headers);
+        headers.delete('host');
+        headers.set(CLUSTER_TOKEN_HEADER, env.clusterSecret);
+        headers.set('X-Forwarded-By', this.nodeId);
+
+        const hasBody = request.method !== 'GET' && request.method !== 'HEAD';
+        const response = await fetch(target, {
+            method: request.method,
+            headers,
+            body: hasBody ? request.body : undefined,
+            redirect: 'manual',
+            // Stream the request body through
+            duplex: 'half',
+        } as RequestInit);
+
+        // fetch already decoded the body
+        const responseHeaders = new Headers(response.headers);
+        responseHeaders.delete('content-encoding');
+        responseHeaders.delete('content-length');
+
+        return new Response(response.body, { status: response.status, headers: responseHeaders });
+    }
+
+    private async heartbeat() {
+        await redis.set(nodeKey(this.nodeId), this.nodeUrl, 'PX', env.clusterLeaseTtl);
+    }
+
+    private async renew() {
+        await this.heartbeat();
+
+        for (const instanceId of this.owned) {
+            const renewed = Number(await redis.eval(RENEW_SCRIPT, 1, leaseKey(instanceId), this.nodeId, env.clusterLeaseTtl));
+            if (renewed === 1) continue;
+
+            // Expired while we were unreachable and possibly taken by another node
+            logger.warn({ instanceId, nodeId: this.nodeId }, 'Instance lease lost');
+            this.owned.delete(instanceId);
+            this.emit('lost', instanceId);
+        }
+    }
+}
+
+export const cluster = new Cluster();
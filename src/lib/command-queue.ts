@@ -0,0 +1,185 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+// Per-instance queue for page commands: bounded depth, limited concurrency, timeouts
+
+export type CommandErrorCode = 'BUSY' | 'TIMEOUT' | 'CANCELLED';
+
+export class CommandError extends Error {
+    constructor(readonly code: CommandErrorCode, message: string) {
+        super(message);
+        this.name = 'CommandError';
+    }
+}
+
+export interface CommandOptions {
+    timeout?: number; // ms, overrides the queue default
+    signal?: AbortSignal;
+    label?: string; // shows up in timeout errors
+}
+
+// The HTTP request being served, so its waiting commands are dropped when the client goes away
+const requestScope = new AsyncLocalStorage<{ signal: AbortSignal; active: boolean }>();
+
+/**
+ * Run a request handler; commands it queues without their own signal use the request's.
+ */
+export async function withRequestSignal(signal: AbortSignal, handler: () => Promise<void>) {
+    const scope = { signal, active: true };
+    try {
+        await requestScope.run(scope, handler);
+    } finally {
+        // Timers and listeners started by the request outlive it and must not inherit the signal
+        scope.active = false;
+    }
+}
+
+function currentRequestSignal() {
+    const scope = requestScope.getStore();
+    return scope?.active ? scope.signal : undefined;
+}
+
+export interface CommandQueueStats {
+    pending: number;
+    running: number;
+    concurrency: number;
+    maxDepth: number;
+    completed: number;
+    failed: number;
+    timedOut: number;
+    rejected: number;
+    cancelled: number;
+    avgWaitMs: number;
+    avgRunMs: number;
+}
+
+interface QueuedCommand {
+    run: () => Promise<unknown>;
+    resolve: (value: any) => void;
+    reject: (error: Error) => void;
+    options: CommandOptions;
+    enqueuedAt: number;
+    onAbort?: () => void;
+}
+
+/**
+ * Runs commands in FIFO order, at most `concurrency` at a time.
+ *
+ * A command that exceeds its timeout is rejected and frees its slot; whatever it
+ * started in the page keeps running, but callers never hang on it.
+ */
+export class CommandQueue {
+    private queue: QueuedCommand[] = [];
+    private running = 0;
+    private counters = { completed: 0, failed: 0, timedOut: 0, rejected: 0, cancelled: 0 };
+    private waitTotal = 0;
+    private runTotal = 0;
+    private started = 0;
+
+    constructor(
+        private concurrency: number,
+        private maxDepth: number,
+        private defaultTimeout: number,
+    ) { }
+
+    run<T>(task: () => Promise<T>, options: CommandOptions = {}): Promise<T> {
+        options = { ...options, signal: options.signal ?? currentRequestSignal() };
+
+        if (options.signal?.aborted) {
+            this.counters.cancelled++;
+            return Promise.reject(new CommandError('CANCELLED', 'Command cancelled'));
+        }
+
+        if (this.queue.length >= this.maxDepth) {
+            this.counters.rejected++;
+            return Promise.reject(new CommandError('BUSY', `Instance is busy (${this.queue.length} commands queued)`));
+        }
+
+        return new Promise<T>((resolve, reject) => {
+            const command: QueuedCommand = { run: task, resolve, reject, options, enqueuedAt: Date.now() };
+
+            // Aborting only drops a command that is still waiting
+            if (options.signal) {
+                command.onAbort = () => {
+                    const index = this.queue.indexOf(command);
+                    if (index === -1) return;
+                    this.queue.splice(index, 1);
+                    this.counters.cancelled++;
+                    reject(new CommandError('CANCELLED', 'Command cancelled'));
+                };
+                options.signal.addEventListener('abort', command.onAbort, { once: true });
+            }
+
+            this.queue.push(command);
+            this.next();
+        });
+    }
+
+    /**
+     * Reject every waiting command (running ones finish or time out on their own)
+     */
+    cancel(reason = 'Command cancelled') {
+        const dropped = this.queue.splice(0);
+        for (const command of dropped) {
+            this.detach(command);
+            command.reject(new CommandError('CANCELLED', reason));
+        }
+        this.counters.cancelled += dropped.length;
+        return dropped.length;
+    }
+
+    getStats(): CommandQueueStats {
+        return {
+            pending: this.queue.length,
+            running: this.running,
+            concurrency: this.concurrency,
+            maxDepth: this.maxDepth,
+            ...this.counters,
+            avgWaitMs: this.started ? Math.round(this.waitTotal / this.started) : 0,
+            avgRunMs: this.started ? Math.round(this.runTotal / this.started) : 0,
+        };
+    }
+
+    private next() {
+        while (this.running < this.concurrency && this.queue.length > 0) {
+            const command = this.queue.shift()!;
+            this.detach(command);
+            this.execute(command);
+        }
+    }
+
+    private execute(command: QueuedCommand) {
+        const startedAt = Date.now();
+        const timeout = command.options.timeout ?? this.defaultTimeout;
+        let settled = false;
+
+        this.running++;
+        this.started++;
+        this.waitTotal += startedAt - command.enqueuedAt;
+
+        const finish = (counter: 'completed' | 'failed' | 'timedOut', settle: () => void) => {
+            if (settled) return;
+            settled = true;
+            clearTimeout(timer);
+
+            this.running--;
+            this.runTotal += Date.now() - startedAt;
+            this.counters[counter]++;
+            settle();
+            this.next();
+        };
+
+        const timer = setTimeout(() => {
+            const label = command.options.label ? ` (${command.options.label})` : '';
+            finish('timedOut', () => command.reject(new CommandError('TIMEOUT', `Command timed out after ${timeout}ms${label}`)));
+        }, timeout);
+
+        command.run().then(
+            (value) => finish('completed', () => command.resolve(value)),
+            (error) => finish('failed', () => command.reject(error)),
+        );
+    }
+
+    private detach(command: QueuedCommand) {
+        if (command.onAbort) command.options.signal?.removeEventListener('abort', command.onAbort);
+    }
+}
@@ -0,0 +1,78 @@
+import type { Page } from 'playwright';
+
+// Troubleshooting data captured from instance pages
+
+export interface ConsoleEntry {
+    type: string; // console type, or 'pageerror' for uncaught exceptions
+    text: string;
+    location?: string;
+    at: Date;
+}
+
+export interface FailedRequest {
+    url: string;
+    method: string;
+    resourceType: string;
+    status?: number; // HTTP status for error responses
+    error?: string; // network failure reason
+    at: Date;
+}
+
+export interface PageVersions {
+    waJs: string | null; // WPP.version reported by the page
+    whatsappWeb: string | null;
+}
+
+export interface InstanceDiagnostics {
+    url: string | null;
+    screenshot: string | null; // data URL (PNG)
+    versions: PageVersions;
+    consoleErrors: ConsoleEntry[];
+    failedRequests: FailedRequest[];
+}
+
+/**
+ * Fixed-size buffer keeping the most recent entries
+ */
+export class RingBuffer<T> {
+    private items: T[] = [];
+
+    constructor(private capacity: number) { }
+
+    push(item: T) {
+        this.items.push(item);
+        if (this.items.length > this.capacity) this.items.shift();
+    }
+
+    // Newest last
+    toArray(limit = this.capacity) {
+        return this.items.slice(-limit);
+    }
+}
+
+/**
+ * Screenshot the page at a readable viewport, then shrink it back
+ */
+export async function captureScreenshot(page: Page, viewport = { width: 1280, height: 800 }) {
+    const original = page.viewportSize();
+
+    await page.setViewportSize(viewport);
+    try {
+        // Give WhatsApp a moment to lay out at the new size
+        await page.waitForTimeout(500);
+        const image = await page.screenshot({ type: 'png' });
+        return `data:image/png;base64,${image.toString('base64')}`;
+    } finally {
+        if (original) await page.setViewportSize(original).catch(() => { });
+    }
+}
+
+export async function readPageVersions(page: Page): Promise<PageVersions> {
+    return await page.evaluate(() => {
+        const w = window as any;
+        return {
+            waJs: w.WPP?.version ?? null,
+            whatsappWeb: w.Debug?.VERSION ?? null,
+        };
+    });
+}
@@ -0,0 +1,427 @@
+import type { EventEmitter } from 'events';
+import type { InstanceStatus } from '@prisma/client';
+import { logger } from './logger.js';
+import { prisma } from './prisma.js';
+import type { MediaType } from './media.js';
+import type { BrowserShardStats } from './browser-pool.js';
+import type { CommandQueueStats } from './command-queue.js';
+import type { ResourceStats } from './resource-monitor.js';
+import type { InstanceDiagnostics } from './diagnostics.js';
+import { resolveBlockingPolicy, type BlockedRequestStats, type BlockingPolicy } from './request-policy.js';
+
+// Contract shared by every WhatsApp engine (Playwright/WPP, in-memory fake)
+
+export type ConnectionState =
+    | 'initializing'
+    | 'loading'
+    | 'qr'
+    | 'pairing'
+    | 'syncing'
+    | 'connected'
+    | 'disconnected'
+    | 'failed'
+    | 'banned';
+
+export type WAEvent =
+    | 'status_change'
+    | 'qr'
+    | 'pair_code'
+    | 'qr_timeout'
+    | 'ready'
+    | 'authenticated'
+    | 'auth_failure'
+    | 'disconnected'
+    | 'reconnecting'
+    | 'reconnected'
+    | 'message'
+    | 'message_create'
+    | 'message_ack'
+    | 'message_revoke_everyone'
+    | 'group_join'
+    | 'group_leave'
+    | 'group_update'
+    | 'call';
+
+// WhatsApp message ack levels (as reported by WA Web)
+export const MessageAck = {
+    ERROR: -1,
+    PENDING: 0,
+    SERVER: 1,
+    DEVICE: 2,
+    READ: 3,
+    PLAYED: 4,
+} as const;
+
+export interface InstanceSettings {
+    alwaysOnline: boolean;
+    ignoreGroups: boolean;
+    rejectCalls: boolean;
+    readMessages: boolean;
+    syncFullHistory: boolean;
+    autoTakeover: boolean;
+    blockingPolicy: BlockingPolicy;
+}
+
+export const DEFAULT_INSTANCE_SETTINGS: InstanceSettings = {
+    alwaysOnline: false,
+    ignoreGroups: false,
+    rejectCalls: false,
+    readMessages: false,
+    syncFullHistory: false,
+    autoTakeover: false,
+    blockingPolicy: resolveBlockingPolicy(),
+};
+
+export interface WAMessage {
+    id: string;
+    from: string;
+    to: string;
+    author?: string;
+    body: string;
+    type: string;
+    timestamp: number;
+    fromMe: boolean;
+    isGroup: boolean;
+    isForwarded: boolean;
+    isStatus: boolean;
+    isStarred: boolean;
+    hasMedia: boolean;
+    media?: WAMediaInfo;
+    ack?: number;
+    hasQuotedMsg: boolean;
+    quotedMsg?: {
+        id: string;
+        participant?: string;
+        body?: string;
+        type?: string;
+    };
+}
+
+export interface WAMediaInfo {
+    mimetype?: string;
+    filename?: string;
+    size?: number; // bytes
+    caption?: string;
+    duration?: number; // seconds, audio/video
+}
+
+export interface WAContact {
+    id: string;
+    number: string;
+    pushname?: string;
+    name?: string;
+    isMyContact: boolean;
+    isBusiness: boolean;
+    isBlocked: boolean;
+    isGroup: boolean;
+    isUser: boolean;
+    profilePicUrl?: string;
+}
+
+export interface WAChat {
+    id: string;
+    name?: string;
+    isGroup: boolean;
+    unreadCount: number;
+    timestamp?: number;
+    archived: boolean;
+    pinned: boolean;
+    isMuted: boolean;
+    muteExpiration?: number;
+    isReadOnly: boolean;
+}
+
+export type ParticipantStatus =
+    | 'added'
+    | 'already_member'
+    | 'invite_required'
+    | 'pending_approval'
+    | 'not_on_whatsapp'
+    | 'not_a_member'
+    | 'removed'
+    | 'promoted'
+    | 'demoted'
+    | 'failed';
+
+export interface ParticipantResult {
+    id: string;
+    status: ParticipantStatus;
+    code?: number;
+    message?: string;
+    // Present when status is invite_required (the user's privacy settings block direct adds)
+    inviteCode?: string;
+    inviteCodeExpiration?: number;
+}
+
+export interface WAGroupInfo {
+    id: string;
+    name?: string;
+    description?: string;
+    owner?: string;
+    createdAt?: number;
+    announce: boolean;
+    restrict: boolean;
+    participants: {
+        id: string;
+        isAdmin: boolean;
+        isSuperAdmin: boolean;
+    }[];
+}
+
+export interface MediaOptions {
+    caption?: string;
+    filename?: string;
+    type?: MediaType; // Overrides the type detected from the mimetype
+    ptt?: boolean; // Send audio as a voice note
+}
+
+// A serialized message id, or its parts
+export type MessageRef = string | {
+    chatId: string;
+    id: string;
+    fromMe?: boolean;
+    participant?: string; // Sender, for messages received in groups
+};
+
+// The target of a command (message, ...) does not exist; routes answer 404
+export class NotFoundError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'NotFoundError';
+    }
+}
+
+export type PresenceState = 'unavailable' | 'available' | 'composing' | 'recording' | 'paused';
+
+export type MuteDuration = '8h' | '1w' | 'forever';
+
+// The engine-side view of an instance, as returned by connect()
+export interface EngineInstance {
+    id: string;
+    status: ConnectionState;
+    qrCode?: string;
+    qrCodeBase64?: string;
+}
+
+export interface SentMessage {
+    id: string;
+    ack: number;
+    to: string;
+}
+
+export interface SentMedia extends SentMessage {
+    type: MediaType;
+}
+
+export interface DeletedMessage {
+    id: string;
+    isRevoked: boolean;
+    isDeleted: boolean;
+}
+
+/**
+ * A WhatsApp engine: owns the instances' connections and emits `WAEvent`s
+ * with `{ instanceId, ... }` payloads.
+ */
+export interface WAEngine extends EventEmitter {
+    // Connection
+    connect(instanceId: string): Promise<EngineInstance>;
+    requestPairingCode(instanceId: string, phoneNumber: string): Promise<{ code: string; phoneNumber: string }>;
+    disconnect(instanceId: string): Promise<void>;
+    logout(instanceId: string): Promise<void>;
+    deleteInstance(instanceId: string): Promise<void>;
+    reconnectAll(): Promise<void>;
+    getStatus(instanceId: string): ConnectionState | 'not_found';
+    getStatusReason(instanceId: string): string | undefined;
+    getQRCode(instanceId: string): { qr?: string; qrBase64?: string };
+    getPairCode(instanceId: string): string | undefined;
+    getAllInstances(): string[];
+    getInstanceSettings(instanceId: string): InstanceSettings;
+    updateInstanceSettings(instanceId: string, settings: Partial<InstanceSettings>): void;
+
+    // Command queue and resource usage (undefined for engines without a page)
+    getQueueStats(instanceId: string): CommandQueueStats | undefined;
+    cancelCommands(instanceId: string): number;
+    getResourceStats(instanceId: string): ResourceStats | undefined;
+    // Requests aborted by the blocking policy since the page opened
+    getBlockedRequestStats(instanceId: string): BlockedRequestStats | undefined;
+    getDiagnostics(instanceId: string, options?: { screenshot?: boolean; limit?: number }): Promise<InstanceDiagnostics | null>;
+
+    // Browser pool (empty for engines without browsers)
+    getPoolStats(): BrowserShardStats[];
+    recycleBrowser(index: number): Promise<{ shard: number; instances: string[] }>;
+
+    // Messaging
+    sendText(instanceId: string, to: string, content: string): Promise<SentMessage>;
+    sendMedia(instanceId: string, to: string, mediaUrl: string, options?: MediaOptions): Promise<SentMedia>;
+    sendMediaBase64(instanceId: string, to: string, base64: string, mimetype: string, options?: MediaOptions): Promise<SentMedia>;
+    sendLocation(instanceId: string, to: string, latitude: number, longitude: number, description?: string): Promise<WAMessage>;
+    sendContact(instanceId: string, to: string, contactId: string): Promise<WAMessage>;
+    sendPoll(instanceId: string, to: string, title: string, options: string[], pollOptions?: { allowMultipleAnswers?: boolean }): Promise<WAMessage>;
+    sendPresence(instanceId: string, to: string, presence: PresenceState): Promise<{ to: string; presence: PresenceState }>;
+    reactToMessage(instanceId: string, messageId: MessageRef, reaction: string): Promise<WAMessage>;
+    editMessage(instanceId: string, messageId: MessageRef, newText: string): Promise<WAMessage>;
+    deleteMessage(instanceId: string, messageId: MessageRef, forEveryone?: boolean): Promise<DeletedMessage>;
+    downloadMedia(instanceId: string, messageId: string, options?: any): Promise<any>;
+
+    // Contacts
+    getContacts(instanceId: string): Promise<WAContact[]>;
+    getContactById(instanceId: string, contactId: string): Promise<WAContact | null>;
+    isRegisteredUser(instanceId: string, number: string): Promise<boolean>;
+    blockContact(instanceId: string, contactId: string): Promise<{ id: string; isBlocked: boolean }>;
+    unblockContact(instanceId: string, contactId: string): Promise<{ id: string; isBlocked: boolean }>;
+    getBlockedContacts(instanceId: string): Promise<WAContact[]>;
+    getProfilePicUrl(instanceId: string, contactId: string): Promise<string | null>;
+
+    // Chats
+    getChats(instanceId: string): Promise<WAChat[]>;
+    getChatById(instanceId: string, chatId: string): Promise<WAChat | null>;
+    getChatMessages(instanceId: string, chatId: string, limit?: number): Promise<WAMessage[]>;
+    archiveChat(instanceId: string, chatId: string): Promise<WAChat>;
+    unarchiveChat(instanceId: string, chatId: string): Promise<WAChat>;
+    pinChat(instanceId: string, chatId: string): Promise<WAChat>;
+    unpinChat(instanceId: string, chatId: string): Promise<WAChat>;
+    muteChat(instanceId: string, chatId: string, duration?: MuteDuration): Promise<WAChat>;
+    unmuteChat(instanceId: string, chatId: string): Promise<WAChat>;
+    markChatAsRead(instanceId: string, chatId: string): Promise<WAChat>;
+    markChatAsUnread(instanceId: string, chatId: string): Promise<WAChat>;
+    clearChat(instanceId: string, chatId: string, keepStarred?: boolean): Promise<WAChat>;
+    deleteChat(instanceId: string, chatId: string): Promise<{ id: string; deleted: boolean }>;
+
+    // Groups
+    createGroup(instanceId: string, name: string, participants: string[]): Promise<{ gid: string; participants: ParticipantResult[] }>;
+    getGroupInfo(instanceId: string, groupId: string): Promise<WAGroupInfo>;
+    addParticipants(instanceId: string, groupId: string, participants: string[]): Promise<ParticipantResult[]>;
+    removeParticipants(instanceId: string, groupId: string, participants: string[]): Promise<ParticipantResult[]>;
+    promoteParticipants(instanceId: string, groupId: string, participants: string[]): Promise<ParticipantResult[]>;
+    demoteParticipants(instanceId: string, groupId: string, participants: string[]): Promise<ParticipantResult[]>;
+    setGroupSubject(instanceId: string, groupId: string, subject: string): Promise<WAGroupInfo>;
+    setGroupDescription(instanceId: string, groupId: string, description: string): Promise<WAGroupInfo>;
+    leaveGroup(instanceId: string, groupId: string): Promise<{ id: string; left: boolean }>;
+    getInviteCode(instanceId: string, groupId: string): Promise<string>;
+    revokeInviteCode(instanceId: string, groupId: string): Promise<string>;
+    joinGroupByInviteCode(instanceId: string, inviteCode: string): Promise<string>;
+
+    // Profile & labels
+    setProfileName(instanceId: string, name: string): Promise<void>;
+    setStatus(instanceId: string, status: string): Promise<void>;
+    setProfilePicture(instanceId: string, url: string): Promise<void>;
+    getLabels(instanceId: string): Promise<any[]>;
+    addLabelToChat(instanceId: string, chatId: string, labelId: string): Promise<void>;
+    removeLabelFromChat(instanceId: string, chatId: string, labelId: string): Promise<void>;
+}
+
+// ==========================================
+// Shared Helpers
+// ==========================================
+
+// Convert a phone number or id into a WhatsApp id (xxx@c.us / xxx@g.us)
+export function toWid(id: string): string {
+    if (id.includes('@')) return id;
+    const cleaned = id.replace(/[^\d-]/g, '');
+    return cleaned.includes('-') ? `${cleaned}@g.us` : `${cleaned}@c.us`;
+}
+
+// Persist a connection state transition and its reason
+export async function persistStateTransition(id: string, from: ConnectionState, to: ConnectionState, reason?: string) {
+    const status = to.toUpperCase() as InstanceStatus;
+
+    await prisma.$transaction([
+        prisma.instance.update({
+            where: { id },
+            data: { status, statusReason: reason ?? null, statusChangedAt: new Date() },
+        }),
+        prisma.instanceStatusLog.create({
+            data: { instanceId: id, from: from.toUpperCase() as InstanceStatus, to: status, reason },
+        }),
+    ]);
+}
+
+/**
+ * Behavior settings stored on the instance (null when it does not exist)
+ */
+export async function loadStoredSettings(instanceId: string): Promise<InstanceSettings | null> {
+    const settings = await prisma.instance.findUnique({
+        where: { id: instanceId },
+        select: {
+            alwaysOnline: true,
+            ignoreGroups: true,
+            rejectCalls: true,
+            readMessages: true,
+            syncFullHistory: true,
+            autoTakeover: true,
+            blockingPolicy: true,
+        },
+    });
+
+    return settings && { ...settings, blockingPolicy: resolveBlockingPolicy(settings.blockingPolicy) };
+}
+
+/**
+ * Whether an event payload belongs to a group chat (messages, acks, calls).
+ * Engines always emit these; consumers facing the user apply ignoreGroups.
+ */
+export function isGroupEvent(data: any): boolean {
+    return !!(data?.message?.isGroup || data?.call?.isGroup || String(data?.chatId || '').endsWith('@g.us'));
+}
+
+// Acks that matched no row yet: the send is still being recorded (see applyEarlyAck)
+const earlyAcks = new Map<string, { ack: number; at: number }>();
+const EARLY_ACK_TTL = 5 * 60 * 1000;
+
+function rememberEarlyAck(waMessageId: string, ack: number) {
+    const now = Date.now();
+    for (const [id, entry] of earlyAcks) {
+        if (now - entry.at < EARLY_ACK_TTL) break; // insertion order, oldest first
+        earlyAcks.delete(id);
+    }
+
+    // Only the highest ack per message is kept
+    earlyAcks.delete(waMessageId);
+    earlyAcks.set(waMessageId, { ack, at: now });
+}
+
+/**
+ * Replay an ack that arrived before the Message row got its waMessageId
+ */
+export async function applyEarlyAck(waMessageId: string) {
+    const entry = earlyAcks.get(waMessageId);
+    if (!entry) return;
+
+    earlyAcks.delete(waMessageId);
+    await trackMessageAck(waMessageId, entry.ack);
+}
+
+// Serialized ids carry fromMe first (true_<chat>_<id>); only sends can have a Message row
+const isOutboundId = (waMessageId: string) => waMessageId.startsWith('true_');
+
+// Advance the persisted Message row matching this ack (never moves backwards)
+export async function trackMessageAck(waMessageId: string, ack: number) {
+    if (!isOutboundId(waMessageId)) return;
+
+    // A repeated (or older) ack for a send that is still being recorded
+    if ((earlyAcks.get(waMessageId)?.ack ?? -Infinity) >= ack) return;
+
+    let status: 'DELIVERED' | 'READ';
+    let from: ('PENDING' | 'SENT' | 'DELIVERED')[];
+
+    if (ack >= MessageAck.READ) {
+        status = 'READ';
+        from = ['PENDING', 'SENT', 'DELIVERED'];
+    } else if (ack === MessageAck.DEVICE) {
+        status = 'DELIVERED';
+        from = ['PENDING', 'SENT'];
+    } else {
+        return;
+    }
+
+    try {
+        const { count } = await prisma.message.updateMany({
+            where: { waMessageId, status: { in: from } },
+            data: { status },
+        });
+        if (count === 0) rememberEarlyAck(waMessageId, ack);
+    } catch (error) {
+        logger.error({ waMessageId, ack, error }, 'Failed to update message ack');
+    }
+}
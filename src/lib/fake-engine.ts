@@ -0,0 +1,797 @@
+import { EventEmitter } from 'events';
+import QRCode from 'qrcode';
+import { env } from '../config/env.js';
+import { logger } from './logger.js';
+import { prisma } from './prisma.js';
+import { cluster } from './cluster.js';
+import { detectMediaType } from './media.js';
+import type { InstanceDiagnostics } from './diagnostics.js';
+import {
+    ConnectionState,
+    DEFAULT_INSTANCE_SETTINGS,
+    DeletedMessage,
+    EngineInstance,
+    InstanceSettings,
+    MediaOptions,
+    MessageAck,
+    MessageRef,
+    MuteDuration,
+    NotFoundError,
+    ParticipantResult,
+    PresenceState,
+    SentMedia,
+    SentMessage,
+    WAChat,
+    WAContact,
+    WAEngine,
+    WAGroupInfo,
+    WAMessage,
+    loadStoredSettings,
+    persistStateTransition,
+    toWid,
+    trackMessageAck,
+} from './engine.js';
+
+// Delay between the simulated ack steps (SERVER -> DEVICE -> READ)
+const FAKE_ACK_INTERVAL = 50;
+
+// Numbers starting with this prefix are reported as not on WhatsApp
+const UNREGISTERED_PREFIX = '000';
+
+interface FakeInstance {
+    id: string;
+    status: ConnectionState;
+    statusReason?: string;
+    qrCode?: string;
+    qrCodeBase64?: string;
+    pairCode?: string;
+    codeCycles: number;
+    me: string;
+    persistQueue: Promise<void>;
+    timers: Set<NodeJS.Timeout>;
+    chats: Map<string, WAChat>;
+    messages: Map<string, WAMessage[]>;
+    groups: Map<string, WAGroupInfo>;
+    blocked: Set<string>;
+}
+
+/**
+ * In-memory WhatsApp engine with deterministic ids, codes and acks.
+ * Selected with WA_ENGINE=fake; lets the API and webhooks run without a browser or a phone.
+ *
+ * Flow on connect: initializing -> loading -> qr, then (WA_FAKE_AUTO_SCAN or simulateScan)
+ * syncing -> connected. Linked instances skip the QR on their next connect.
+ */
+export class FakeEngine extends EventEmitter implements WAEngine {
+    private instances: Map<string, FakeInstance> = new Map();
+    // Kept apart from the instances, like the Playwright engine, so settings patched while offline stick
+    private instanceSettings: Map<string, InstanceSettings> = new Map();
+    private linked: Set<string> = new Set();
+    private sequence = 0;
+
+    constructor() {
+        super();
+        logger.warn('Using the fake WhatsApp engine (WA_ENGINE=fake)');
+    }
+
+    // ==========================================
+    // Connection
+    // ==========================================
+
+    async connect(instanceId: string): Promise<EngineInstance> {
+        let instance = this.instances.get(instanceId);
+        if (!instance) {
+            if (!await cluster.claim(instanceId)) {
+                throw new Error('Instance is owned by another node');
+            }
+            instance = this.createInstance(instanceId);
+            this.instances.set(instanceId, instance);
+        }
+
+        if (instance.status !== 'disconnected' && instance.status !== 'failed') return instance;
+
+        // Apply the persisted behavior settings, as the Playwright engine does on every (re)connect
+        await this.loadInstanceSettings(instanceId);
+
+        this.setState(instance, 'initializing', 'connect');
+        this.setState(instance, 'loading', 'page_loaded');
+
+        if (this.linked.has(instanceId)) {
+            this.completeConnection(instance, 'session_restored');
+        } else {
+            await this.showQRCode(instance);
+            if (env.waFakeAutoScan) this.schedule(instance, () => this.simulateScan(instanceId));
+        }
+
+        return instance;
+    }
+
+    async requestPairingCode(instanceId: string, phoneNumber: string) {
+        const phone = phoneNumber.replace(/\D/g, '');
+        if (phone.length < 8 || phone.length > 15) {
+            throw new Error('Invalid phone number');
+        }
+
+        const instance = await this.connect(instanceId) as FakeInstance;
+        if (instance.status === 'connected') {
+            throw new Error('Instance already connected');
+        }
+        if (!['loading', 'qr', 'pairing'].includes(instance.status)) {
+            throw new Error(`Cannot request a pairing code while ${instance.status}`);
+        }
+
+        const code = `FAKE${String(++instance.codeCycles).padStart(4, '0')}`;
+        instance.pairCode = code;
+        instance.qrCode = undefined;
+        instance.qrCodeBase64 = undefined;
+        this.setState(instance, 'pairing', 'pair_code_requested');
+        this.emit('pair_code', { instanceId, code });
+
+        return { code, phoneNumber: phone };
+    }
+
+    async disconnect(instanceId: string) {
+        const instance = this.instances.get(instanceId);
+        if (!instance) return;
+
+        this.clearTimers(instance);
+        this.setState(instance, 'disconnected', 'disconnect');
+        this.instances.delete(instanceId);
+        await cluster.release(instanceId);
+    }
+
+    async logout(instanceId: string) {
+        await this.disconnect(instanceId);
+        this.linked.delete(instanceId);
+    }
+
+    async deleteInstance(instanceId: string) {
+        await this.logout(instanceId);
+        this.instanceSettings.delete(instanceId);
+    }
+
+    async reconnectAll() {
+        const instances = await prisma.instance.findMany({ where: { status: 'CONNECTED' } });
+        for (const inst of instances) {
+            if (this.instances.has(inst.id) || !await cluster.claim(inst.id)) continue;
+
+            // The database says it was linked; there is no real session to lose
+            this.linked.add(inst.id);
+            this.connect(inst.id).catch((error) => {
+                logger.error({ instanceId: inst.id, error }, 'Failed to restore instance');
+            });
+        }
+    }
+
+    getStatus(instanceId: string) {
+        const instance = this.instances.get(instanceId);
+        if (!instance) return 'not_found';
+        return instance.status;
+    }
+
+    getStatusReason(instanceId: string) {
+        return this.instances.get(instanceId)?.statusReason;
+    }
+
+    getQRCode(instanceId: string) {
+        const instance = this.instances.get(instanceId);
+        return { qr: instance?.qrCode, qrBase64: instance?.qrCodeBase64 };
+    }
+
+    getPairCode(instanceId: string) {
+        return this.instances.get(instanceId)?.pairCode;
+    }
+
+    getAllInstances() {
+        return Array.from(this.instances.keys());
+    }
+
+    getInstanceSettings(instanceId: string) {
+        return this.instanceSettings.get(instanceId) ?? DEFAULT_INSTANCE_SETTINGS;
+    }
+
+    updateInstanceSettings(instanceId: string, settings: Partial<InstanceSettings>) {
+        const current = this.getInstanceSettings(instanceId);
+        const next: InstanceSettings = {
+            alwaysOnline: settings.alwaysOnline ?? current.alwaysOnline,
+            ignoreGroups: settings.ignoreGroups ?? current.ignoreGroups,
+            rejectCalls: settings.rejectCalls ?? current.rejectCalls,
+            readMessages: settings.readMessages ?? current.readMessages,
+            syncFullHistory: settings.syncFullHistory ?? current.syncFullHistory,
+            autoTakeover: settings.autoTakeover ?? current.autoTakeover,
+            blockingPolicy: settings.blockingPolicy ?? current.blockingPolicy,
+        };
+
+        this.instanceSettings.set(instanceId, next);
+        logger.info({ instanceId, settings: next }, 'Instance settings updated');
+    }
+
+    private async loadInstanceSettings(instanceId: string) {
+        try {
+            const settings = await loadStoredSettings(instanceId);
+            if (settings) this.updateInstanceSettings(instanceId, settings);
+        } catch (error) {
+            logger.error({ instanceId, error }, 'Failed to load instance settings');
+        }
+    }
+
+    // Commands run synchronously, there is no queue
+    getQueueStats(_instanceId: string) {
+        return undefined;
+    }
+
+    cancelCommands(_instanceId: string) {
+        return 0;
+    }
+
+    getResourceStats(_instanceId: string) {
+        return undefined;
+    }
+
+    getBlockedRequestStats(_instanceId: string) {
+        return undefined;
+    }
+
+    async getDiagnostics(instanceId: string): Promise<InstanceDiagnostics | null> {
+        if (!this.instances.has(instanceId)) return null;
+
+        return {
+            url: 'fake://web.whatsapp.com',
+            screenshot: null,
+            versions: { waJs: env.waJsVersion, whatsappWeb: 'fake' },
+            consoleErrors: [],
+            failedRequests: [],
+        };
+    }
+
+    getPoolStats() {
+        return [];
+    }
+
+    async recycleBrowser(index: number): Promise<{ shard: number; instances: string[] }> {
+        throw new Error(`Browser shard ${index} not found`);
+    }
+
+    // ==========================================
+    // Simulation Helpers
+    // ==========================================
+
+    /**
+     * The phone scanned the QR (or typed the pairing code)
+     */
+    simulateScan(instanceId: string) {
+        const instance = this.instances.get(instanceId);
+        if (!instance || !['qr', 'pairing'].includes(instance.status)) return;
+
+        this.linked.add(instanceId);
+        this.completeConnection(instance, 'authenticated');
+    }
+
+    /**
+     * A message arrives from a contact (or group participant)
+     */
+    simulateInbound(instanceId: string, from: string, body: string, options: { author?: string; type?: string } = {}) {
+        const instance = this.getConnectedInstance(instanceId);
+        const chatId = toWid(from);
+        const isGroup = chatId.endsWith('@g.us');
+
+        const message = this.addMessage(instance, chatId, {
+            id: `false_${chatId}_${this.nextId()}`,
+            from: chatId,
+            to: instance.me,
+            author: isGroup ? toWid(options.author || '5500000000001') : undefined,
+            body,
+            type: options.type || 'chat',
+            fromMe: false,
+        });
+
+        const chat = this.ensureChat(instance, chatId);
+        chat.unreadCount++;
+
+        this.emit('message_create', { instanceId, message });
+        this.emit('message', { instanceId, message });
+
+        const { readMessages, ignoreGroups } = this.getInstanceSettings(instanceId);
+        if (readMessages && !(ignoreGroups && isGroup)) chat.unreadCount = 0;
+        return message;
+    }
+
+    /**
+     * The session drops (phone logged out, conflict, ...)
+     */
+    simulateDisconnect(instanceId: string, reason = 'logout') {
+        const instance = this.instances.get(instanceId);
+        if (!instance) return;
+
+        if (reason === 'logout') {
+            this.linked.delete(instanceId);
+            this.emit('auth_failure', { instanceId, reason });
+        }
+
+        this.clearTimers(instance);
+        this.setState(instance, 'disconnected', reason);
+        this.instances.delete(instanceId);
+        cluster.release(instanceId);
+    }
+
+    // ==========================================
+    // Messaging
+    // ==========================================
+
+    async sendText(instanceId: string, to: string, content: string): Promise<SentMessage> {
+        const message = this.send(instanceId, to, { body: content, type: 'chat' });
+        return { id: message.id, ack: MessageAck.PENDING, to: message.to };
+    }
+
+    async sendMedia(instanceId: string, to: string, mediaUrl: string, options: MediaOptions = {}) {
+        const filename = options.filename || mediaUrl.split('/').pop() || 'file';
+        return this.sendMediaBase64(instanceId, to, '', 'application/octet-stream', { ...options, filename });
+    }
+
+    async sendMediaBase64(instanceId: string, to: string, _base64: string, mimetype: string, options: MediaOptions = {}): Promise<SentMedia> {
+        const type = options.type || detectMediaType(mimetype, options.caption);
+        const message = this.send(instanceId, to, {
+            body: options.caption || '',
+            type,
+            hasMedia: true,
+            media: { mimetype, filename: options.filename, caption: options.caption },
+        });
+        return { id: message.id, ack: MessageAck.PENDING, to: message.to, type };
+    }
+
+    async sendLocation(instanceId: string, to: string, latitude: number, longitude: number, description?: string) {
+        return this.send(instanceId, to, { body: description || `${latitude},${longitude}`, type: 'location' });
+    }
+
+    async sendContact(instanceId: string, to: string, contactId: string) {
+        return this.send(instanceId, to, { body: toWid(contactId), type: 'vcard' });
+    }
+
+    async sendPoll(instanceId: string, to: string, title: string, _options: string[], _pollOptions: { allowMultipleAnswers?: boolean } = {}) {
+        return this.send(instanceId, to, { body: title, type: 'poll_creation' });
+    }
+
+    async sendPresence(instanceId: string, to: string, presence: PresenceState) {
+        this.getConnectedInstance(instanceId);
+        return { to: toWid(to), presence };
+    }
+
+    async reactToMessage(instanceId: string, messageId: MessageRef, _reaction: string) {
+        return this.findMessage(instanceId, messageId);
+    }
+
+    async editMessage(instanceId: string, messageId: MessageRef, newText: string) {
+        const message = this.findMessage(instanceId, messageId);
+        message.body = newText;
+        return message;
+    }
+
+    async deleteMessage(instanceId: string, messageId: MessageRef, forEveryone: boolean = true): Promise<DeletedMessage> {
+        const instance = this.getConnectedInstance(instanceId);
+        const message = this.findMessage(instanceId, messageId);
+
+        const chatId = message.fromMe ? message.to : message.from;
+        const list = instance.messages.get(chatId) || [];
+        instance.messages.set(chatId, list.filter((m) => m.id !== message.id));
+
+        return { id: message.id, isRevoked: forEveryone, isDeleted: !forEveryone };
+    }
+
+    async downloadMedia(_instanceId: string, _messageId: string, _options?: any) {
+        return null;
+    }
+
+    // ==========================================
+    // Contacts
+    // ==========================================
+
+    async getContacts(instanceId: string): Promise<WAContact[]> {
+        const instance = this.getConnectedInstance(instanceId);
+        return [...instance.chats.keys()]
+            .filter((id) => id.endsWith('@c.us'))
+            .map((id) => this.formatContact(instance, id));
+    }
+
+    async getContactById(instanceId: string, contactId: string): Promise<WAContact | null> {
+        const instance = this.getConnectedInstance(instanceId);
+        const id = toWid(contactId);
+        return this.isRegistered(id) ? this.formatContact(instance, id) : null;
+    }
+
+    async isRegisteredUser(instanceId: string, number: string) {
+        this.getConnectedInstance(instanceId);
+        return this.isRegistered(toWid(number));
+    }
+
+    async blockContact(instanceId: string, contactId: string) {
+        const id = toWid(contactId);
+        this.getConnectedInstance(instanceId).blocked.add(id);
+        return { id, isBlocked: true };
+    }
+
+    async unblockContact(instanceId: string, contactId: string) {
+        const id = toWid(contactId);
+        this.getConnectedInstance(instanceId).blocked.delete(id);
+        return { id, isBlocked: false };
+    }
+
+    async getBlockedContacts(instanceId: string): Promise<WAContact[]> {
+        const instance = this.getConnectedInstance(instanceId);
+        return [...instance.blocked].map((id) => this.formatContact(instance, id));
+    }
+
+    async getProfilePicUrl(instanceId: string, _contactId: string): Promise<string | null> {
+        this.getConnectedInstance(instanceId);
+        return null;
+    }
+
+    // ==========================================
+    // Chats
+    // ==========================================
+
+    async getChats(instanceId: string): Promise<WAChat[]> {
+        const instance = this.getConnectedInstance(instanceId);
+        return [...instance.chats.values()].map((chat) => ({ ...chat }));
+    }
+
+    async getChatById(instanceId: string, chatId: string): Promise<WAChat | null> {
+        const chat = this.getConnectedInstance(instanceId).chats.get(toWid(chatId));
+        return chat ? { ...chat } : null;
+    }
+
+    async getChatMessages(instanceId: string, chatId: string, limit = 50): Promise<WAMessage[]> {
+        const messages = this.getConnectedInstance(instanceId).messages.get(toWid(chatId)) || [];
+        return messages.slice(-limit);
+    }
+
+    async archiveChat(instanceId: string, chatId: string) { return this.updateChat(instanceId, chatId, { archived: true }); }
+    async unarchiveChat(instanceId: string, chatId: string) { return this.updateChat(instanceId, chatId, { archived: false }); }
+    async pinChat(instanceId: string, chatId: string) { return this.updateChat(instanceId, chatId, { pinned: true }); }
+    async unpinChat(instanceId: string, chatId: string) { return this.updateChat(instanceId, chatId, { pinned: false }); }
+    async unmuteChat(instanceId: string, chatId: string) { return this.updateChat(instanceId, chatId, { isMuted: false, muteExpiration: undefined }); }
+    async markChatAsRead(instanceId: string, chatId: string) { return this.updateChat(instanceId, chatId, { unreadCount: 0 }); }
+    async markChatAsUnread(instanceId: string, chatId: string) { return this.updateChat(instanceId, chatId, { unreadCount: -1 }); }
+
+    async muteChat(instanceId: string, chatId: string, duration: MuteDuration = '8h') {
+        const muteExpiration = duration === 'forever'
+            ? -1
+            : Math.floor(Date.now() / 1000) + (duration === '1w' ? 7 * 24 * 60 * 60 : 8 * 60 * 60);
+
+        return this.updateChat(instanceId, chatId, { isMuted: true, muteExpiration });
+    }
+
+    async clearChat(instanceId: string, chatId: string, _keepStarred = true) {
+        const instance = this.getConnectedInstance(instanceId);
+        instance.messages.set(toWid(chatId), []);
+        return this.updateChat(instanceId, chatId, {});
+    }
+
+    async deleteChat(instanceId: string, chatId: string) {
+        const instance = this.getConnectedInstance(instanceId);
+        const id = toWid(chatId);
+        instance.chats.delete(id);
+        instance.messages.delete(id);
+        return { id, deleted: true };
+    }
+
+    // ==========================================
+    // Groups
+    // ==========================================
+
+    async createGroup(instanceId: string, name: string, participants: string[]) {
+        const instance = this.getConnectedInstance(instanceId);
+        const gid = `120363${String(this.nextId()).padStart(12, '0')}@g.us`;
+
+        const group: WAGroupInfo = {
+            id: gid,
+            name,
+            owner: instance.me,
+            createdAt: Math.floor(Date.now() / 1000),
+            announce: false,
+            restrict: false,
+            participants: [{ id: instance.me, isAdmin: true, isSuperAdmin: true }],
+        };
+        instance.groups.set(gid, group);
+        this.ensureChat(instance, gid).name = name;
+
+        return { gid, participants: await this.addParticipants(instanceId, gid, participants) };
+    }
+
+    async getGroupInfo(instanceId: string, groupId: string): Promise<WAGroupInfo> {
+        const group = this.getGroup(instanceId, groupId);
+        return { ...group, participants: group.participants.map((p) => ({ ...p })) };
+    }
+
+    async addParticipants(instanceId: string, groupId: string, participants: string[]): Promise<ParticipantResult[]> {
+        const group = this.getGroup(instanceId, groupId);
+
+        return participants.map((p) => {
+            const id = toWid(p);
+            if (!this.isRegistered(id)) return { id, status: 'not_on_whatsapp' };
+            if (group.participants.some((m) => m.id === id)) return { id, status: 'already_member', code: 409 };
+
+            group.participants.push({ id, isAdmin: false, isSuperAdmin: false });
+            return { id, status: 'added', code: 200 };
+        });
+    }
+
+    async removeParticipants(instanceId: string, groupId: string, participants: string[]): Promise<ParticipantResult[]> {
+        const group = this.getGroup(instanceId, groupId);
+
+        return participants.map((p) => {
+            const id = toWid(p);
+            if (!group.participants.some((m) => m.id === id)) return { id, status: 'not_a_member' };
+
+            group.participants = group.participants.filter((m) => m.id !== id);
+            return { id, status: 'removed' };
+        });
+    }
+
+    async promoteParticipants(instanceId: string, groupId: string, participants: string[]) {
+        return this.setAdmin(instanceId, groupId, participants, true);
+    }
+
+    async demoteParticipants(instanceId: string, groupId: string, participants: string[]) {
+        return this.setAdmin(instanceId, groupId, participants, false);
+    }
+
+    async setGroupSubject(instanceId: string, groupId: string, subject: string) {
+        this.getGroup(instanceId, groupId).name = subject;
+        return this.getGroupInfo(instanceId, groupId);
+    }
+
+    async setGroupDescription(instanceId: string, groupId: string, description: string) {
+        this.getGroup(instanceId, groupId).description = description;
+        return this.getGroupInfo(instanceId, groupId);
+    }
+
+    async leaveGroup(instanceId: string, groupId: string) {
+        const instance = this.getConnectedInstance(instanceId);
+        const group = this.getGroup(instanceId, groupId);
+        group.participants = group.participants.filter((m) => m.id !== instance.me);
+        return { id: group.id, left: true };
+    }
+
+    async getInviteCode(instanceId: string, groupId: string) {
+        const group = this.getGroup(instanceId, groupId);
+        return `FAKEINVITE${group.id.split('@')[0].slice(-6)}`;
+    }
+
+    async revokeInviteCode(instanceId: string, groupId: string) {
+        const group = this.getGroup(instanceId, groupId);
+        return `FAKEINVITE${group.id.split('@')[0].slice(-6)}${this.nextId()}`;
+    }
+
+    async joinGroupByInviteCode(instanceId: string, _inviteCode: string) {
+        const { gid } = await this.createGroup(instanceId, 'Invited group', []);
+        return gid;
+    }
+
+    // ==========================================
+    // Profile & Labels
+    // ==========================================
+
+    async setProfileName(_instanceId: string, _name: string) { }
+    async setStatus(_instanceId: string, _status: string) { }
+    async setProfilePicture(_instanceId: string, _url: string) { }
+
+    async getLabels(_instanceId: string) { return []; }
+    async addLabelToChat(_instanceId: string, _chatId: string, _labelId: string) { }
+    async removeLabelFromChat(_instanceId: string, _chatId: string, _labelId: string) { }
+
+    // ==========================================
+    // Internals
+    // ==========================================
+
+    private createInstance(id: string): FakeInstance {
+        return {
+            id,
+            status: 'disconnected',
+            codeCycles: 0,
+            me: `5500000${String(this.instances.size + this.linked.size + 1).padStart(6, '0')}@c.us`,
+            persistQueue: Promise.resolve(),
+            timers: new Set(),
+            chats: new Map(),
+            messages: new Map(),
+            groups: new Map(),
+            blocked: new Set(),
+        };
+    }
+
+    private nextId() {
+        return ++this.sequence;
+    }
+
+    private setState(instance: FakeInstance, to: ConnectionState, reason?: string) {
+        const from = instance.status;
+        if (from === to) return;
+
+        instance.status = to;
+        instance.statusReason = reason;
+        this.emit('status_change', { instanceId: instance.id, from, status: to, reason });
+
+        instance.persistQueue = instance.persistQueue
+            .then(() => persistStateTransition(instance.id, from, to, reason))
+            .catch((error) => logger.error({ id: instance.id, error }, 'Failed to persist state transition'));
+    }
+
+    private async showQRCode(instance: FakeInstance) {
+        const code = `fake-qr:${instance.id}:${++instance.codeCycles}`;
+        instance.qrCode = code;
+        instance.qrCodeBase64 = await QRCode.toDataURL(code);
+
+        this.setState(instance, 'qr', 'qr_received');
+        this.emit('qr', { instanceId: instance.id, qr: code, qrBase64: instance.qrCodeBase64 });
+    }
+
+    private completeConnection(instance: FakeInstance, reason: string) {
+        const { id } = instance;
+        instance.qrCode = undefined;
+        instance.qrCodeBase64 = undefined;
+        instance.pairCode = undefined;
+
+        this.setState(instance, 'syncing', reason);
+        this.setState(instance, 'connected', 'ready');
+
+        prisma.instance.update({
+            where: { id },
+            data: { waNumber: instance.me.split('@')[0], waName: 'Fake Device' },
+        }).catch((error) => logger.warn({ id, error }, 'Failed to save profile info'));
+
+        this.emit('authenticated', { instanceId: id });
+        this.emit('ready', { instanceId: id });
+    }
+
+    // Timers die with the instance so a disconnect never leaks simulated events
+    private schedule(instance: FakeInstance, fn: () => void, delay = 0) {
+        const timer = setTimeout(() => {
+            instance.timers.delete(timer);
+            fn();
+        }, delay);
+        instance.timers.add(timer);
+    }
+
+    private clearTimers(instance: FakeInstance) {
+        instance.timers.forEach(clearTimeout);
+        instance.timers.clear();
+    }
+
+    private getConnectedInstance(instanceId: string) {
+        const instance = this.instances.get(instanceId);
+        if (!instance || instance.status !== 'connected') throw new Error('Instance not connected');
+        return instance;
+    }
+
+    private isRegistered(wid: string) {
+        return wid.endsWith('@g.us') || !wid.startsWith(UNREGISTERED_PREFIX);
+    }
+
+    private send(instanceId: string, to: string, content: Pick<WAMessage, 'body' | 'type'> & Partial<Pick<WAMessage, 'hasMedia' | 'media'>>) {
+        const instance = this.getConnectedInstance(instanceId);
+        const chatId = toWid(to);
+        if (!this.isRegistered(chatId)) throw new Error(`Number not on WhatsApp: ${to}`);
+
+        const message = this.addMessage(instance, chatId, {
+            id: `true_${chatId}_${this.nextId()}`,
+            from: instance.me,
+            to: chatId,
+            fromMe: true,
+            ...content,
+        });
+        this.emit('message_create', { instanceId, message });
+
+        // Walk the ack ladder; groups stop at SERVER like a real multi-recipient chat would
+        const steps = chatId.endsWith('@g.us')
+            ? [MessageAck.SERVER]
+            : [MessageAck.SERVER, MessageAck.DEVICE, MessageAck.READ];
+
+        steps.forEach((ack, index) => {
+            this.schedule(instance, () => {
+                trackMessageAck(message.id, ack);
+                this.emit('message_ack', { instanceId, messageId: message.id, chatId, ack });
+            }, FAKE_ACK_INTERVAL * (index + 1));
+        });
+
+        return message;
+    }
+
+    private addMessage(instance: FakeInstance, chatId: string, fields: Partial<WAMessage> & Pick<WAMessage, 'id' | 'from' | 'to' | 'body' | 'type' | 'fromMe'>) {
+        const message: WAMessage = {
+            timestamp: Math.floor(Date.now() / 1000),
+            isGroup: chatId.endsWith('@g.us'),
+            isForwarded: false,
+            isStatus: false,
+            isStarred: false,
+            hasMedia: false,
+            hasQuotedMsg: false,
+            ...fields,
+        };
+
+        const list = instance.messages.get(chatId) || [];
+        list.push(message);
+        instance.messages.set(chatId, list);
+        this.ensureChat(instance, chatId).timestamp = message.timestamp;
+
+        return message;
+    }
+
+    private findMessage(instanceId: string, ref: MessageRef) {
+        const instance = this.getConnectedInstance(instanceId);
+        const id = typeof ref === 'string' ? ref : ref.id;
+
+        for (const list of instance.messages.values()) {
+            // Accept both the serialized id and its last part
+            const message = list.find((m) => m.id === id || m.id.endsWith(`_${id}`));
+            if (message) return message;
+        }
+
+        throw new NotFoundError(`Message not found: ${typeof ref === 'string' ? ref : `${ref.id} in ${ref.chatId}`}`);
+    }
+
+    private ensureChat(instance: FakeInstance, chatId: string) {
+        let chat = instance.chats.get(chatId);
+        if (!chat) {
+            chat = {
+                id: chatId,
+                isGroup: chatId.endsWith('@g.us'),
+                unreadCount: 0,
+                archived: false,
+                pinned: false,
+                isMuted: false,
+                isReadOnly: false,
+            };
+            instance.chats.set(chatId, chat);
+        }
+        return chat;
+    }
+
+    private updateChat(instanceId: string, chatId: string, changes: Partial<WAChat>): WAChat {
+        const chat = this.getConnectedInstance(instanceId).chats.get(toWid(chatId));
+        if (!chat) throw new Error('Chat not found');
+
+        Object.assign(chat, changes);
+        return { ...chat };
+    }
+
+    private getGroup(instanceId: string, groupId: string) {
+        const gid = groupId.includes('@') ? groupId : `${groupId}@g.us`;
+        const group = this.getConnectedInstance(instanceId).groups.get(gid);
+        if (!group) throw new Error(`Group not found: ${gid}`);
+        return group;
+    }
+
+    private formatContact(instance: FakeInstance, id: string): WAContact {
+        return {
+            id,
+            number: id.split('@')[0],
+            isMyContact: instance.chats.has(id),
+            isBusiness: false,
+            isBlocked: instance.blocked.has(id),
+            isGroup: id.endsWith('@g.us'),
+            isUser: id.endsWith('@c.us'),
+        };
+    }
+
+    private setAdmin(instanceId: string, groupId: string, participants: string[], isAdmin: boolean): ParticipantResult[] {
+        const group = this.getGroup(instanceId, groupId);
+
+        return participants.map((p) => {
+            const id = toWid(p);
+            const member = group.participants.find((m) => m.id === id);
+            if (!member) return { id, status: 'not_a_member' };
+
+            member.isAdmin = isAdmin;
+            return { id, status: isAdmin ? 'promoted' : 'demoted' };
+        });
+    }
+}
+
+/**
+ * The running engine as a FakeEngine, so tests can drive QR scans, inbound messages and drops
+ */
+export function asFakeEngine(engine: WAEngine): FakeEngine {
+    if (!(engine instanceof FakeEngine)) {
+        throw new Error('The fake engine is not running (set WA_ENGINE=fake)');
+    }
+    return engine;
+}
@@ -0,0 +1,100 @@
+import mime from 'mime-types';
+import * as path from 'path';
+import { env } from '../config/env.js';
+
+export type MediaType = 'image' | 'video' | 'audio' | 'document' | 'sticker';
+
+export interface MediaFile {
+    data: Buffer;
+    mimetype: string;
+    filename: string;
+}
+
+/**
+ * Pick the WhatsApp message type for a mimetype (webp is a sticker unless it has a caption)
+ */
+export function detectMediaType(mimetype: string, caption?: string): MediaType {
+    // Stickers can't carry a caption, so a captioned webp is a photo
+    if (mimetype === 'image/webp' && !caption) return 'sticker';
+    if (mimetype.startsWith('image/')) return 'image';
+    if (mimetype.startsWith('video/')) return 'video';
+    if (mimetype.startsWith('audio/')) return 'audio';
+    return 'document';
+}
+
+/**
+ * Build a filename that carries an extension matching the mimetype
+ */
+export function buildFilename(mimetype: string, filename?: string): string {
+    const ext = mime.extension(mimetype) || 'bin';
+    if (!filename) return `file.${ext}`;
+    return path.extname(filename) ? filename : `${filename}.${ext}`;
+}
+
+function filenameFromResponse(url: URL, response: Response): string | undefined {
+    const disposition = response.headers.get('content-disposition');
+    const match = disposition?.match(/filename\*?=(?:UTF-8'')?"?([^";]+)"?/i);
+    if (match) return decodeURIComponent(match[1]);
+
+    const base = path.basename(url.pathname);
+    return base && base !== '/' ? decodeURIComponent(base) : undefined;
+}
+
+/**
+ * Download a media file, enforcing the configured size limit and timeout
+ */
+export async function fetchMedia(mediaUrl: string): Promise<MediaFile> {
+    const url = new URL(mediaUrl);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        throw new Error(`Unsupported media URL protocol: ${url.protocol}`);
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), env.waMediaTimeout);
+
+    try {
+        const response = await fetch(url, { signal: controller.signal });
+        if (!response.ok || !response.body) {
+            throw new Error(`Failed to download media: HTTP ${response.status}`);
+        }
+
+        const declaredSize = Number(response.headers.get('content-length'));
+        if (declaredSize > env.waMediaMaxSize) {
+            throw new Error(`Media exceeds the maximum size of ${env.waMediaMaxSize} bytes`);
+        }
+
+        // Read the stream manually so oversized bodies without content-length are cut off
+        const chunks: Uint8Array[] = [];
+        let size = 0;
+        const reader = response.body.getReader();
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            size += value.length;
+            if (size > env.waMediaMaxSize) {
+                await reader.cancel();
+                throw new Error(`Media exceeds the maximum size of ${env.waMediaMaxSize} bytes`);
+            }
+            chunks.push(value);
+        }
+
+        const filename = filenameFromResponse(url, response);
+        const headerType = response.headers.get('content-type')?.split(';')[0].trim();
+        const mimetype = (headerType && headerType !== 'application/octet-stream' ? headerType : undefined)
+            || (filename && mime.lookup(filename))
+            || 'application/octet-stream';
+
+        return {
+            data: Buffer.concat(chunks),
+            mimetype,
+            filename: buildFilename(mimetype, filename),
+        };
+    } catch (error) {
+        if (error instanceof Error && error.name === 'AbortError') {
+            throw new Error(`Media download timed out after ${env.waMediaTimeout}ms`);
+        }
+        throw error;
+    } finally {
+        clearTimeout(timeout);
+    }
+}
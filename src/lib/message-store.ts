@@ -0,0 +1,73 @@
+import { env } from '../config/env.js';
+import { logger } from './logger.js';
+import { prisma } from './prisma.js';
+import { MessageAck, type WAEngine, type WAMessage } from './engine.js';
+
+// Persists every message an engine reports (group chats included), so history does not depend on the live page
+
+// Writes run in event order per instance, so an ack never lands before its message
+const writeQueues = new Map<string, Promise<void>>();
+
+function enqueue(instanceId: string, write: () => Promise<unknown>) {
+    const previous = writeQueues.get(instanceId) ?? Promise.resolve();
+    const next = previous
+        .then(write)
+        .then(() => undefined, (error) => {
+            logger.error({ instanceId, error }, 'Failed to store message');
+        })
+        .finally(() => {
+            if (writeQueues.get(instanceId) === next) writeQueues.delete(instanceId);
+        });
+    writeQueues.set(instanceId, next);
+}
+
+export async function storeMessage(instanceId: string, message: WAMessage) {
+    const chatId = message.fromMe ? message.to : message.from;
+    const data = {
+        chatId,
+        sender: message.author || message.from,
+        direction: message.fromMe ? 'OUTBOUND' as const : 'INBOUND' as const,
+        type: message.type,
+        body: message.body,
+        media: message.media ? { ...message.media } : undefined,
+        quotedId: message.quotedMsg?.id,
+        isGroup: message.isGroup,
+        timestamp: new Date(message.timestamp * 1000),
+    };
+
+    // The same message is reported again when WA Web re-renders it (edits, history sync)
+    await prisma.chatMessage.upsert({
+        where: { instanceId_waMessageId: { instanceId, waMessageId: message.id } },
+        create: { ...data, instanceId, waMessageId: message.id, ack: Math.max(message.ack ?? 0, 0) },
+        update: data,
+    });
+}
+
+export async function updateStoredAck(instanceId: string, waMessageId: string, ack: number) {
+    // Acks only move forward; ERROR (-1) only marks sends that never reached the device
+    await prisma.chatMessage.updateMany({
+        where: { instanceId, waMessageId, ack: { lt: ack >= 0 ? ack : MessageAck.DEVICE } },
+        data: { ack },
+    });
+}
+
+/**
+ * Store messages and acks emitted by the engine (WA_MESSAGE_STORE=false disables it)
+ */
+export function setupMessageStore(engine: WAEngine) {
+    if (!env.waMessageStore) {
+        logger.info('Message store disabled');
+        return;
+    }
+
+    engine.on('message_create', ({ instanceId, message }: { instanceId: string; message: WAMessage }) => {
+        if (message.isStatus) return;
+        enqueue(instanceId, () => storeMessage(instanceId, message));
+    });
+
+    engine.on('message_ack', ({ instanceId, messageId, ack }: { instanceId: string; messageId: string; ack: number }) => {
+        enqueue(instanceId, () => updateStoredAck(instanceId, messageId, ack));
+    });
+
+    logger.info('Message store listeners setup complete');
+}
@@ -0,0 +1,54 @@
+import { env } from '../config/env.js';
+
+// Which page requests get aborted, traded off between memory and features
+
+export const BLOCKING_POLICIES = ['minimal', 'balanced', 'full'] as const;
+
+export type BlockingPolicy = typeof BLOCKING_POLICIES[number];
+
+export interface BlockedRequestStats {
+    total: number;
+    byType: Record<string, number>;
+}
+
+const TRACKER_DOMAINS = [
+    'google-analytics', 'facebook.com/tr', 'doubleclick', 'googletagmanager',
+    'analytics', 'crashlytics', 'sentry.io', 'hotjar', 'clarity.ms',
+];
+
+// Never needed by a headless session
+const NON_ESSENTIAL_TYPES = ['manifest', 'other', 'texttrack', 'eventsource'];
+
+// Profile pictures (pps.whatsapp.net) and message media (mmg.whatsapp.net) are served from here
+const isWhatsAppHost = (url: string) => url.includes('whatsapp.net') || url.includes('whatsapp.com') || url.includes('wa.me');
+
+/**
+ * Policy stored on the instance, or the env default when unset or unknown
+ */
+export function resolveBlockingPolicy(value?: string | null): BlockingPolicy {
+    return BLOCKING_POLICIES.includes(value as BlockingPolicy) ? value as BlockingPolicy : env.waBlockingPolicy;
+}
+
+/**
+ * - minimal: trackers only
+ * - balanced: also fonts, non-essential types and third-party images/media/stylesheets
+ * - full: also WhatsApp's own images and media (breaks profile pictures and in-page media)
+ */
+export function shouldBlockRequest(policy: BlockingPolicy, resourceType: string, url: string): boolean {
+    // WhatsApp's page, scripts, API calls and its websocket are required in every policy
+    if (resourceType === 'websocket') return false;
+    if (['document', 'script', 'xhr', 'fetch'].includes(resourceType) && isWhatsAppHost(url)) return false;
+
+    if (TRACKER_DOMAINS.some((domain) => url.includes(domain))) return true;
+    if (policy === 'minimal') return false;
+
+    if (resourceType === 'font' || NON_ESSENTIAL_TYPES.includes(resourceType)) return true;
+
+    if (resourceType === 'image' || resourceType === 'media') {
+        return policy === 'full' || !isWhatsAppHost(url);
+    }
+
+    if (resourceType === 'stylesheet') return !url.includes('web.whatsapp.com');
+
+    return false;
+}
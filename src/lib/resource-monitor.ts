@@ -0,0 +1,63 @@
+import type { Page } from 'playwright';
+import { env } from '../config/env.js';
+
+// Resource sampling for instance pages
+
+export interface ResourceSample {
+    heapUsedMb: number | null; // null where the browser does not report it (WebKit)
+    heapLimitMb: number | null;
+    domNodes: number;
+    evaluateLatencyMs: number;
+    sampledAt: Date;
+}
+
+export interface ResourceStats extends ResourceSample {
+    overLimit: string[]; // limits exceeded by the last sample
+    strikes: number; // consecutive samples over a limit
+    restarts: number; // restarts triggered by the monitor
+}
+
+const MB = 1024 * 1024;
+
+/**
+ * Measure the page from a single evaluate; its round-trip is the latency sample
+ */
+export async function sampleResources(page: Page): Promise<ResourceSample> {
+    const startedAt = Date.now();
+
+    const raw = await page.evaluate(() => {
+        const memory = (performance as any).memory;
+        return {
+            heapUsed: memory ? Number(memory.usedJSHeapSize) : null,
+            heapLimit: memory ? Number(memory.jsHeapSizeLimit) : null,
+            domNodes: document.getElementsByTagName('*').length,
+        };
+    });
+
+    return {
+        heapUsedMb: raw.heapUsed === null ? null : Math.round(raw.heapUsed / MB),
+        heapLimitMb: raw.heapLimit === null ? null : Math.round(raw.heapLimit / MB),
+        domNodes: raw.domNodes,
+        evaluateLatencyMs: Date.now() - startedAt,
+        sampledAt: new Date(),
+    };
+}
+
+/**
+ * Limits (from env) the sample exceeds; a limit of 0 is disabled
+ */
+export function exceededLimits(sample: ResourceSample): string[] {
+    const exceeded: string[] = [];
+
+    if (env.waMaxHeapMb && sample.heapUsedMb !== null && sample.heapUsedMb > env.waMaxHeapMb) {
+        exceeded.push('heap');
+    }
+    if (env.waMaxDomNodes && sample.domNodes > env.waMaxDomNodes) {
+        exceeded.push('dom_nodes');
+    }
+    if (env.waMaxEvaluateLatency && sample.evaluateLatencyMs > env.waMaxEvaluateLatency) {
+        exceeded.push('evaluate_latency');
+    }
+
+    return exceeded;
+}
@@ -0,0 +1,111 @@
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+import { z } from 'zod';
+import { env } from '../config/env.js';
+import { BLOCKING_POLICIES } from './request-policy.js';
+
+// Portable session archive, used to move an instance between deployments
+
+export const SESSION_ARCHIVE_VERSION = 1;
+
+// Settings as stored on the instance: null keeps inheriting the target server's default
+const archivedSettingsSchema = z.object({
+    alwaysOnline: z.boolean(),
+    ignoreGroups: z.boolean(),
+    rejectCalls: z.boolean(),
+    readMessages: z.boolean(),
+    syncFullHistory: z.boolean(),
+    autoTakeover: z.boolean(),
+    blockingPolicy: z.enum(BLOCKING_POLICIES).nullable(),
+});
+
+// Unknown keys are stripped, so an archive can only carry these fields into the instance
+const sessionArchiveContentSchema = z.object({
+    instanceId: z.string(),
+    waNumber: z.string().nullable(),
+    waName: z.string().nullable(),
+    settings: archivedSettingsSchema,
+    // Whether the source disconnected and stopped using the session when it was exported
+    handoff: z.boolean().default(false),
+    storageState: z.object({
+        cookies: z.array(z.any()),
+        origins: z.array(z.any()),
+    }),
+});
+
+export type ArchivedSettings = z.infer<typeof archivedSettingsSchema>;
+
+export type SessionArchiveContent = z.infer<typeof sessionArchiveContentSchema>;
+
+export const sessionArchiveSchema = z.object({
+    format: z.literal('wa-session'),
+    version: z.number().int(),
+    exportedAt: z.string(),
+    kdf: z.literal('scrypt'),
+    salt: z.string(),
+    iv: z.string(),
+    tag: z.string(),
+    data: z.string(),
+});
+
+export type SessionArchive = z.infer<typeof sessionArchiveSchema>;
+
+// Without a passphrase the server key is used, which only works between deployments sharing it
+function deriveKey(salt: Buffer, passphrase?: string) {
+    return scryptSync(passphrase || env.waSessionKey, salt, 32);
+}
+
+export function createSessionArchive(content: SessionArchiveContent, passphrase?: string): SessionArchive {
+    const salt = randomBytes(16);
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', deriveKey(salt, passphrase), iv);
+    const data = Buffer.concat([cipher.update(JSON.stringify(content), 'utf-8'), cipher.final()]);
+
+    return {
+        format: 'wa-session',
+        version: SESSION_ARCHIVE_VERSION,
+        exportedAt: new Date().toISOString(),
+        kdf: 'scrypt',
+        salt: salt.toString('base64'),
+        iv: iv.toString('base64'),
+        tag: cipher.getAuthTag().toString('base64'),
+        data: data.toString('base64'),
+    };
+}
+
+/**
+ * Decrypt and validate an archive. Throws on unsupported versions, a wrong passphrase and malformed content.
+ */
+export function openSessionArchive(archive: SessionArchive, passphrase?: string): SessionArchiveContent {
+    if (archive.version !== SESSION_ARCHIVE_VERSION) {
+        throw new Error(`Unsupported session archive version: ${archive.version}`);
+    }
+
+    const decipher = createDecipheriv(
+        'aes-256-gcm',
+        deriveKey(Buffer.from(archive.salt, 'base64'), passphrase),
+        Buffer.from(archive.iv, 'base64'),
+    );
+    decipher.setAuthTag(Buffer.from(archive.tag, 'base64'));
+
+    let json: string;
+    try {
+        json = Buffer.concat([decipher.update(Buffer.from(archive.data, 'base64')), decipher.final()]).toString('utf-8');
+    } catch {
+        throw new Error('Invalid passphrase or corrupted archive');
+    }
+
+    let content: unknown;
+    try {
+        content = JSON.parse(json);
+    } catch {
+        throw new Error('Malformed session archive content');
+    }
+
+    const parsed = sessionArchiveContentSchema.safeParse(content);
+    if (!parsed.success) {
+        const issue = parsed.error.errors[0];
+        throw new Error(`Malformed session archive content: ${issue.path.join('.')} ${issue.message}`);
+    }
+
+    return parsed.data;
+}
@@ -0,0 +1,198 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { env } from '../config/env.js';
+import { logger } from './logger.js';
+import { prisma } from './prisma.js';
+import { redis } from './redis.js';
+
+// Browser session storage (Playwright storageState), encrypted at rest
+
+// Playwright storageState: cookies + localStorage per origin
+export type SessionState = {
+    cookies: any[];
+    origins: any[];
+};
+
+export interface SessionStore {
+    readonly name: string;
+    load(instanceId: string): Promise<SessionState | null>;
+    save(instanceId: string, state: SessionState): Promise<void>;
+    remove(instanceId: string): Promise<void>;
+    exists(instanceId: string): Promise<boolean>;
+}
+
+// ==========================================
+// Encryption (AES-256-GCM)
+// ==========================================
+
+const CIPHER_VERSION = 'v1';
+
+function getKey() {
+    return createHash('sha256').update(env.waSessionKey).digest();
+}
+
+// Serialized as `v1:<iv>:<tag>:<ciphertext>` (base64 parts)
+export function encryptSession(state: SessionState): string {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', getKey(), iv);
+    const data = Buffer.concat([cipher.update(JSON.stringify(state), 'utf-8'), cipher.final()]);
+
+    return [CIPHER_VERSION, iv.toString('base64'), cipher.getAuthTag().toString('base64'), data.toString('base64')].join(':');
+}
+
+export function decryptSession(payload: string): SessionState {
+    const [version, iv, tag, data] = payload.split(':');
+    if (version !== CIPHER_VERSION || !iv || !tag || !data) {
+        throw new Error('Unsupported session format');
+    }
+
+    const decipher = createDecipheriv('aes-256-gcm', getKey(), Buffer.from(iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(tag, 'base64'));
+    const json = Buffer.concat([decipher.update(Buffer.from(data, 'base64')), decipher.final()]).toString('utf-8');
+
+    return JSON.parse(json);
+}
+
+// Undecryptable data (wrong key, corruption) is treated as no session
+function decryptOrNull(instanceId: string, payload: string) {
+    try {
+        return decryptSession(payload);
+    } catch (error) {
+        logger.warn({ instanceId, error }, 'Failed to decrypt session, starting fresh');
+        return null;
+    }
+}
+
+// ==========================================
+// Backends
+// ==========================================
+
+class FileSessionStore implements SessionStore {
+    readonly name = 'filesystem';
+
+    private file(instanceId: string) {
+        return path.join(env.waSessionPath, instanceId, 'state.enc');
+    }
+
+    async load(instanceId: string) {
+        const file = this.file(instanceId);
+        if (!fs.existsSync(file)) return null;
+        return decryptOrNull(instanceId, await fs.promises.readFile(file, 'utf-8'));
+    }
+
+    async save(instanceId: string, state: SessionState) {
+        const file = this.file(instanceId);
+        await fs.promises.mkdir(path.dirname(file), { recursive: true });
+
+        // Write then rename, so a crash never leaves a truncated session
+        const tmp = `${file}.tmp`;
+        await fs.promises.writeFile(tmp, encryptSession(state), { mode: 0o600 });
+        await fs.promises.rename(tmp, file);
+    }
+
+    async remove(instanceId: string) {
+        await fs.promises.rm(path.join(env.waSessionPath, instanceId), { recursive: true, force: true });
+    }
+
+    async exists(instanceId: string) {
+        return fs.existsSync(this.file(instanceId));
+    }
+}
+
+class PostgresSessionStore implements SessionStore {
+    readonly name = 'postgres';
+
+    async load(instanceId: string) {
+        const row = await prisma.instanceSession.findUnique({ where: { instanceId } });
+        return row ? decryptOrNull(instanceId, row.data) : null;
+    }
+
+    async save(instanceId: string, state: SessionState) {
+        const data = encryptSession(state);
+        await prisma.instanceSession.upsert({
+            where: { instanceId },
+            create: { instanceId, data },
+            update: { data },
+        });
+    }
+
+    async remove(instanceId: string) {
+        await prisma.instanceSession.deleteMany({ where: { instanceId } });
+    }
+
+    async exists(instanceId: string) {
+        return (await prisma.instanceSession.count({ where: { instanceId } })) > 0;
+    }
+}
+
+class RedisSessionStore implements SessionStore {
+    readonly name = 'redis';
+
+    private key(instanceId: string) {
+        return `wa:session:${instanceId}`;
+    }
+
+    async load(instanceId: string) {
+        const payload: string | null = await redis.get(this.key(instanceId));
+        return payload ? decryptOrNull(instanceId, payload) : null;
+    }
+
+    async save(instanceId: string, state: SessionState) {
+        await redis.set(this.key(instanceId), encryptSession(state));
+    }
+
+    async remove(instanceId: string) {
+        await redis.del(this.key(instanceId));
+    }
+
+    async exists(instanceId: string) {
+        return (await redis.exists(this.key(instanceId))) > 0;
+    }
+}
+
+function createSessionStore(): SessionStore {
+    switch (env.waSessionStore) {
+        case 'postgres': return new PostgresSessionStore();
+        case 'redis': return new RedisSessionStore();
+        default: return new FileSessionStore();
+    }
+}
+
+export const sessionStore = createSessionStore();
+
+// ==========================================
+// Migration
+// ==========================================
+
+/**
+ * Move plaintext `sessions/<id>/state.json` files into the configured store.
+ * Each file is deleted once stored, so this only does work on the first boot after upgrading.
+ */
+export async function migrateLegacySessions() {
+    if (!fs.existsSync(env.waSessionPath)) return;
+
+    let migrated = 0;
+    for (const instanceId of fs.readdirSync(env.waSessionPath)) {
+        const legacyFile = path.join(env.waSessionPath, instanceId, 'state.json');
+        if (!fs.existsSync(legacyFile)) continue;
+
+        try {
+            const state = JSON.parse(fs.readFileSync(legacyFile, 'utf-8')) as SessionState;
+            await sessionStore.save(instanceId, state);
+            fs.rmSync(legacyFile, { force: true });
+
+            // Leave no empty directory behind when the store is not the filesystem
+            const dir = path.dirname(legacyFile);
+            if (fs.readdirSync(dir).length === 0) fs.rmdirSync(dir);
+
+            migrated++;
+        } catch (error) {
+            logger.error({ instanceId, error }, 'Failed to migrate legacy session');
+        }
+    }
+
+    if (migrated > 0) {
+        logger.info({ migrated, store: sessionStore.name }, 'Legacy sessions migrated');
+    }
+}
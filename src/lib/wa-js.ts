@@ -0,0 +1,73 @@
+import { createHash } from 'crypto';
+import { createRequire } from 'module';
+import * as fs from 'fs';
+import * as path from 'path';
+import { env } from '../config/env.js';
+import { logger } from './logger.js';
+
+// WPPConnect wa-js, served from the pinned npm package instead of a CDN
+
+export interface WaJsBundle {
+    version: string;
+    checksum: string; // sha256 (hex) of the script
+    path: string;
+    source: string;
+}
+
+let bundle: WaJsBundle | null = null;
+
+function resolveScriptPath() {
+    if (env.waJsPath) return path.resolve(env.waJsPath);
+
+    const require = createRequire(import.meta.url);
+    return require.resolve('@wppconnect/wa-js/dist/wppconnect-wa.js');
+}
+
+function readPackageVersion(scriptPath: string) {
+    try {
+        const pkg = JSON.parse(fs.readFileSync(path.join(path.dirname(scriptPath), '..', 'package.json'), 'utf-8'));
+        return String(pkg.version);
+    } catch {
+        return 'unknown';
+    }
+}
+
+/**
+ * Load and verify the wa-js script (cached after the first successful load).
+ * Throws when the file is missing or does not match the configured version/checksum.
+ */
+export function loadWaJs(): WaJsBundle {
+    if (bundle) return bundle;
+
+    const scriptPath = resolveScriptPath();
+    const source = fs.readFileSync(scriptPath, 'utf-8');
+    const checksum = createHash('sha256').update(source).digest('hex');
+    const version = env.waJsPath ? 'custom' : readPackageVersion(scriptPath);
+
+    if (!env.waJsPath && version !== env.waJsVersion) {
+        throw new Error(`wa-js version mismatch: expected ${env.waJsVersion}, installed ${version}`);
+    }
+    if (env.waJsChecksum && checksum !== env.waJsChecksum) {
+        throw new Error(`wa-js checksum mismatch: expected ${env.waJsChecksum}, got ${checksum}`);
+    }
+
+    bundle = { version, checksum, path: scriptPath, source };
+    logger.info({ version, checksum, path: scriptPath }, 'wa-js loaded');
+    return bundle;
+}
+
+/**
+ * wa-js details for health checks
+ */
+export function getWaJsInfo() {
+    try {
+        const { version, checksum } = loadWaJs();
+        return { status: 'ok', version, checksum, expectedVersion: env.waJsVersion };
+    } catch (error) {
+        return {
+            status: 'error',
+            expectedVersion: env.waJsVersion,
+            error: error instanceof Error ? error.message : 'Failed to load wa-js',
+        };
+    }
+}
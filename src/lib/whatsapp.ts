@@ -2,72 +2,171 @@
 declare global {
     interface Window {
         WPP: any;
+        __waEmit: (event: string, payload: any) => void;
+        __waSerializeMsg: (msg: any) => any;
+        __waSerializeContact: (contact: any) => any;
+        __waSerializeChat: (chat: any) => any;
+        __waFindMsg: (ids: string[]) => Promise<any>;
+        __waSentMsg: (result: any) => Promise<any>;
     }
 }
-import { webkit, Browser, BrowserContext, Page } from 'playwright';
+import { BrowserContext, Page, Request } from 'playwright';
 import { EventEmitter } from 'events';
-import * as fs from 'fs';
-import * as path from 'path';
 import { env } from '../config/env.js';
 import { logger } from './logger.js';
 import { prisma } from './prisma.js';
+import { BrowserEngine, BrowserPool, DEFAULT_USER_AGENTS } from './browser-pool.js';
+import { loadWaJs } from './wa-js.js';
+import QRCode from 'qrcode';
+import { buildFilename, detectMediaType, fetchMedia } from './media.js';
+import { FakeEngine } from './fake-engine.js';
+import { sessionStore, SessionState } from './session-store.js';
+import { cluster } from './cluster.js';
+import { CommandError, CommandOptions, CommandQueue } from './command-queue.js';
+import { exceededLimits, ResourceStats, sampleResources } from './resource-monitor.js';
+import { BlockedRequestStats, shouldBlockRequest } from './request-policy.js';
+import {
+    captureScreenshot,
+    ConsoleEntry,
+    FailedRequest,
+    InstanceDiagnostics,
+    readPageVersions,
+    RingBuffer,
+} from './diagnostics.js';
+import {
+    ConnectionState,
+    DEFAULT_INSTANCE_SETTINGS,
+    InstanceSettings,
+    MediaOptions,
+    MessageRef,
+    MuteDuration,
+    NotFoundError,
+    ParticipantResult,
+    ParticipantStatus,
+    PresenceState,
+    WAChat,
+    WAContact,
+    WAEngine,
+    WAGroupInfo,
+    WAMessage,
+    loadStoredSettings,
+    persistStateTransition,
+    toWid,
+    trackMessageAck,
+} from './engine.js';
+
+// Allowed transitions; anything else is logged and ignored
+const STATE_TRANSITIONS: Record<ConnectionState, ConnectionState[]> = {
+    initializing: ['loading', 'failed', 'disconnected'],
+    loading: ['qr', 'pairing', 'syncing', 'connected', 'failed', 'disconnected', 'banned'],
+    qr: ['pairing', 'syncing', 'connected', 'failed', 'disconnected', 'banned'],
+    pairing: ['syncing', 'connected', 'failed', 'disconnected', 'banned'],
+    syncing: ['connected', 'failed', 'disconnected', 'banned'],
+    connected: ['syncing', 'failed', 'disconnected', 'banned'],
+    disconnected: ['initializing'],
+    failed: ['initializing', 'disconnected'],
+    banned: ['initializing', 'disconnected'],
+};
+
+// States in which the login flow is still in progress
+const PENDING_STATES: ConnectionState[] = ['initializing', 'loading', 'qr', 'pairing', 'syncing'];
+
+// States that end the session; the browser context is not kept around
+const TERMINAL_STATES: ConnectionState[] = ['disconnected', 'failed', 'banned'];
 
 export interface WAInstance {
     context: BrowserContext;
     page: Page;
     id: string;
-    status: 'disconnected' | 'connecting' | 'connected' | 'qr';
+    status: ConnectionState;
+    statusReason?: string;
+    stateChangedAt: number;
+    codeCycles: number;
     qrCode?: string;
     qrCodeBase64?: string;
+    pairCode?: string;
+    pairPhone?: string;
+    shard: number;
     gcInterval?: NodeJS.Timeout;
+    monitorInterval?: NodeJS.Timeout;
+    resources?: ResourceStats;
+    consoleErrors: RingBuffer<ConsoleEntry>;
+    failedRequests: RingBuffer<FailedRequest>;
+    blocked: BlockedRequestStats;
+    saveInterval?: NodeJS.Timeout;
+    saveSession: () => Promise<void>;
+    commands: CommandQueue;
+    stateTimer?: NodeJS.Timeout;
+    pairCodeInterval?: NodeJS.Timeout;
+    persistQueue: Promise<void>;
+    // Set when the context is closed on purpose (logout/disconnect), so it is not restored
+    closing?: boolean;
+    restartReason?: string;
+    // Restart requested by an operator (browser recycle), not a failure
+    plannedRestart?: boolean;
+    // Reported by WA Web right before a logout
+    logoutReason?: string;
+    // Saved session is being removed, stop saving it
+    discardSession?: boolean;
 }
 
-export type WAEvent =
-    | 'qr'
-    | 'ready'
-    | 'authenticated'
-    | 'auth_failure'
-    | 'disconnected'
-    | 'message'
-    | 'message_create'
-    | 'message_ack'
-    | 'message_revoke_everyone'
-    | 'group_join'
-    | 'group_leave'
-    | 'group_update'
-    | 'call';
-
-export class WhatsAppManager extends EventEmitter {
+interface ReconnectState {
+    attempt: number;
+    since: number;
+    reason: string;
+    timer?: NodeJS.Timeout;
+    // Operator-initiated: the first attempt is not announced as a reconnect
+    planned?: boolean;
+    // A `reconnecting` event went out, so `reconnected` must follow
+    announced?: boolean;
+}
+
+// How often available presence is re-sent while alwaysOnline is enabled
+const ALWAYS_ONLINE_INTERVAL = 4 * 60 * 1000;
+
+// Pairing codes expire on WhatsApp's side, so a fresh one is requested periodically
+const PAIR_CODE_REFRESH_INTERVAL = 3 * 60 * 1000;
+
+type ChatAction =
+    | 'archive'
+    | 'unarchive'
+    | 'pin'
+    | 'unpin'
+    | 'mute'
+    | 'unmute'
+    | 'markRead'
+    | 'markUnread'
+    | 'clear';
+
+export class WhatsAppManager extends EventEmitter implements WAEngine {
     private instances: Map<string, WAInstance> = new Map();
-    private static sharedBrowser: Browser | null = null; // Static to ensure singleton across restarts if manager is recreated
+    private instanceSettings: Map<string, InstanceSettings> = new Map();
+    private alwaysOnlineIntervals: Map<string, NodeJS.Timeout> = new Map();
+    private reconnects: Map<string, ReconnectState> = new Map();
+    private resourceRestarts: Map<string, number> = new Map();
+    private pool = new BrowserPool(env.waBrowserPoolSize, env.waContextsPerBrowser);
 
     constructor() {
         super();
-        this.ensureSessionDir();
-    }
-
-    private ensureSessionDir() {
-        if (!fs.existsSync(env.waSessionPath)) {
-            fs.mkdirSync(env.waSessionPath, { recursive: true });
-        }
-    }
 
-    private async getSharedBrowser() {
-        if (!WhatsAppManager.sharedBrowser) {
-            logger.info('Launching SHARED WebKit Browser (Singleton)...');
-            WhatsAppManager.sharedBrowser = await webkit.launch({
-                headless: true
-            });
+        // A browser process died: restore the instances that lived on it
+        this.pool.on('disconnected', (_shard: number, instanceIds: string[]) => {
+            for (const instanceId of instanceIds) {
+                const instance = this.instances.get(instanceId);
+                if (instance) this.handleCrash(instance, 'browser_crash');
+            }
+        });
 
-            // Handle browser crash/close
-            WhatsAppManager.sharedBrowser.on('disconnected', () => {
-                logger.error('SHARED BROWSER DISCONNECTED! Resetting...');
-                WhatsAppManager.sharedBrowser = null;
-            });
-        } else {
-            logger.info('Reusing existing SHARED WebKit Browser ♻️');
-        }
-        return WhatsAppManager.sharedBrowser;
+        // Another node may own the instance now: stop running it here
+        cluster.on('lost', (instanceId: string) => {
+            this.cancelReconnect(instanceId);
+            const instance = this.instances.get(instanceId);
+            if (instance) {
+                instance.closing = true;
+                instance.restartReason = 'lease_lost';
+                instance.context.close().catch(() => { });
+            }
+        });
     }
 
     async createInstance(instanceId: string): Promise<WAInstance> {
@@ -75,14 +174,10 @@ export class WhatsAppManager extends EventEmitter {
             throw new Error(`Instance ${instanceId} already exists`);
         }
 
-        const sessionDir = path.join(env.waSessionPath, instanceId);
-        if (!fs.existsSync(sessionDir)) fs.mkdirSync(sessionDir, { recursive: true });
+        // Fails loudly when the pinned wa-js is missing or does not match
+        const waJs = loadWaJs();
 
-        const stateFile = path.join(sessionDir, 'state.json');
-
-        logger.info({ instanceId, engine: 'WebKit', mode: 'Context' }, 'Creating Browser Context...');
-
-        // Fetch proxy settings from DB
+        // Fetch proxy and browser settings from DB
         const dbInstance = await prisma.instance.findUnique({
             where: { id: instanceId },
             select: {
@@ -91,20 +186,26 @@ export class WhatsAppManager extends EventEmitter {
                 proxyProtocol: true,
                 proxyUsername: true,
                 proxyPassword: true,
+                browserEngine: true,
+                userAgent: true,
+                locale: true,
+                timezone: true,
             }
         });
 
-        // Load saved state if exists
-        let storageState: string | undefined = undefined;
-        if (fs.existsSync(stateFile)) {
-            try {
-                // Verify if valid JSON
-                JSON.parse(fs.readFileSync(stateFile, 'utf-8'));
-                storageState = stateFile;
-                logger.info({ instanceId }, 'Restoring session from state.json');
-            } catch (e) {
-                logger.warn({ instanceId }, 'Invalid state file, starting fresh');
-            }
+        const engine = (dbInstance?.browserEngine as BrowserEngine | null) || env.waBrowserEngine;
+        logger.info({ instanceId, engine, mode: 'Context' }, 'Creating Browser Context...');
+
+        // The blocking policy has to be known before the first request
+        await this.loadInstanceSettings(instanceId);
+
+        // Load saved session if exists
+        let storageState: SessionState | undefined = undefined;
+        try {
+            storageState = await sessionStore.load(instanceId) ?? undefined;
+            if (storageState) logger.info({ instanceId, store: sessionStore.name }, 'Restoring saved session');
+        } catch (error) {
+            logger.warn({ instanceId, error }, 'Failed to load saved session, starting fresh');
         }
 
         // MEMORY OPTIMIZATIONS (balanced for functionality)
@@ -113,10 +214,11 @@ export class WhatsAppManager extends EventEmitter {
             viewport: { width: 1, height: 1 }, // Minimal viewport to save Framebuffer RAM
             deviceScaleFactor: 1, // Standard DPI
             // NOTE: isMobile: true breaks WhatsApp Web (redirects to app download)
-            userAgent: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.4 Safari/605.1.15',
+            userAgent: dbInstance?.userAgent || env.waUserAgent || DEFAULT_USER_AGENTS[engine],
             bypassCSP: true,
             javaScriptEnabled: true,
-            locale: 'pt-BR',
+            locale: dbInstance?.locale || env.waLocale,
+            timezoneId: dbInstance?.timezone || env.waTimezone,
             ignoreHTTPSErrors: true,
             serviceWorkers: 'block', // Block Service Workers (High Memory Usage)
             colorScheme: 'dark',
@@ -139,8 +241,14 @@ export class WhatsAppManager extends EventEmitter {
             }
         }
 
-        const browser = await this.getSharedBrowser();
-        const context = await browser.newContext(contextOptions);
+        const { browser, shard } = await this.pool.acquire(instanceId, engine);
+        let context: BrowserContext;
+        try {
+            context = await browser.newContext(contextOptions);
+        } catch (error) {
+            this.pool.release(instanceId);
+            throw error;
+        }
 
         // MEMORY LIMIT INJECTION - Block/limit storage APIs that consume RAM
         await context.addInitScript(() => {
@@ -178,92 +286,164 @@ export class WhatsAppManager extends EventEmitter {
             }, 120000); // Every 2 minutes
         });
 
+        // WPPConnect wa-js from the pinned local copy, loaded before WhatsApp's own scripts
+        await context.addInitScript({
+            content: `if (window.top === window && location.hostname === 'web.whatsapp.com') {\n${waJs.source}\n}`,
+        });
+
+        // Bridge connection events; wa-js is re-injected on every navigation, so are these listeners
+        await context.addInitScript(() => {
+            if (window.top !== window || !window.WPP) return;
+
+            const emit = (event: string, payload: Record<string, any> = {}) => {
+                try {
+                    window.__waEmit('conn', { event, ...payload });
+                } catch (e) { /* ignore */ }
+            };
+
+            window.WPP.on('conn.auth_code_change', (authCode: any) => emit('auth_code', { code: authCode?.fullCode ?? null }));
+            window.WPP.on('conn.authenticated', () => emit('authenticated'));
+            window.WPP.on('conn.main_ready', () => emit('main_ready'));
+            window.WPP.on('conn.logout', () => emit('logout'));
+            window.WPP.on('conn.logout_reason', (reason: string) => emit('logout_reason', { reason }));
+            window.WPP.on('conn.require_auth', () => emit('require_auth'));
+            window.WPP.on('conn.stream_mode_changed', (mode: string) => emit('stream_mode', { mode }));
+        });
+
+        // Message serializer, shared by the event bridge and message queries
+        await context.addInitScript(() => {
+            const wid = (w: any) => (w ? w._serialized || String(w) : undefined);
+            window.__waSerializeMsg = (msg: any) => {
+                if (!msg) return null;
+                const quoted = msg.quotedStanzaID ? {
+                    id: msg.quotedStanzaID,
+                    participant: wid(msg.quotedParticipant),
+                    body: msg.quotedMsg?.body ?? msg.quotedMsg?.caption,
+                    type: msg.quotedMsg?.type,
+                } : undefined;
+                return {
+                    id: wid(msg.id),
+                    from: wid(msg.from),
+                    to: wid(msg.to),
+                    author: wid(msg.author),
+                    body: msg.body ?? msg.caption ?? '',
+                    type: msg.type,
+                    timestamp: msg.t,
+                    fromMe: !!msg.id?.fromMe,
+                    isGroup: (wid(msg.id?.remote) || '').endsWith('@g.us'),
+                    isForwarded: !!msg.isForwarded,
+                    isStatus: !!msg.isStatusV3,
+                    isStarred: !!msg.star,
+                    hasMedia: !!(msg.isMedia || msg.mediaData || msg.directPath),
+                    media: msg.mimetype ? {
+                        mimetype: msg.mimetype,
+                        filename: msg.filename,
+                        size: msg.size,
+                        caption: msg.caption,
+                        duration: msg.duration ? Number(msg.duration) : undefined,
+                    } : undefined,
+                    ack: msg.ack,
+                    quotedMsg: quoted,
+                };
+            };
+            window.__waSerializeContact = (contact: any) => {
+                if (!contact) return null;
+                const id = wid(contact.id);
+                return {
+                    id,
+                    number: contact.id?.user,
+                    pushname: contact.pushname,
+                    name: contact.name || contact.verifiedName,
+                    isMyContact: !!contact.isMyContact,
+                    isBusiness: !!contact.isBusiness,
+                    isBlocked: !!(window.WPP?.blocklist?.isBlocked(contact.id) ?? contact.isContactBlocked),
+                    isGroup: contact.id?.server === 'g.us',
+                    isUser: !!contact.isUser,
+                    profilePicUrl: contact.profilePicThumb?.eurl,
+                };
+            };
+            // Resolve the first candidate id that exists in the message store
+            window.__waFindMsg = async (ids: string[]) => {
+                for (const id of ids) {
+                    try {
+                        const msg = await window.WPP.chat.getMessageById(id);
+                        if (msg) return msg;
+                    } catch (e) { /* try next candidate */ }
+                }
+                return null;
+            };
+            // Serialize the message created by a WPP send call
+            window.__waSentMsg = async (result: any) => {
+                const msg = await window.__waFindMsg([result.id]);
+                return msg ? window.__waSerializeMsg(msg) : { id: result.id, fromMe: true };
+            };
+            window.__waSerializeChat = (chat: any) => {
+                if (!chat) return null;
+                return {
+                    id: wid(chat.id),
+                    name: chat.formattedTitle || chat.name || chat.contact?.pushname,
+                    isGroup: !!chat.isGroup,
+                    unreadCount: chat.unreadCount || 0,
+                    timestamp: chat.t,
+                    archived: !!chat.archive,
+                    pinned: !!chat.pin,
+                    isMuted: !!(chat.mute?.expiration ?? chat.muteExpiration),
+                    muteExpiration: chat.mute?.expiration ?? chat.muteExpiration,
+                    isReadOnly: !!chat.isReadOnly,
+                };
+            };
+        });
+
         const page = await context.newPage();
 
+        // Bridge page-side WPP events into this manager
+        await page.exposeFunction('__waEmit', (event: string, payload: any) => {
+            this.handlePageEvent(instanceId, event, payload);
+        });
+
         logger.info({
             instanceId,
+            shard,
             activeContexts: browser.contexts().length,
             message: 'Browser Context Created'
-        }, 'Singleton Stats 📊');
+        }, 'Browser Pool Stats 📊');
 
         // Auto-save state on changes
         const saveState = async () => {
+            if (instance.discardSession) return;
             try {
-                await context.storageState({ path: stateFile });
+                await sessionStore.save(instanceId, await context.storageState());
             } catch (e) { /* ignore errors during close */ }
         };
 
         // Save state periodically and on important events
         page.on('load', saveState);
         page.on('close', saveState);
-        setInterval(saveState, 60000); // Autosave every minute
+        const saveInterval = setInterval(saveState, 60000); // Autosave every minute
 
 
-        // AGGRESSIVE RESOURCE BLOCKING - Block everything non-essential
-        await page.route('**/*', (route) => {
-            const resourceType = route.request().resourceType();
-            const url = route.request().url();
-
-            // Always allow WhatsApp's critical JS and document
-            if (resourceType === 'document' || resourceType === 'script') {
-                if (url.includes('web.whatsapp.com') || url.includes('static.whatsapp')) {
-                    return route.continue();
-                }
-            }
+        // Requests aborted on purpose, so they don't show up as failures in the diagnostics
+        const blockedRequests = new WeakSet<Request>();
 
-            // Allow XHR/Fetch for messaging to work
-            if (resourceType === 'xhr' || resourceType === 'fetch') {
-                if (url.includes('whatsapp') || url.includes('wa.me')) {
-                    return route.continue();
-                }
-            }
+        // Abort what the instance's blocking policy leaves out (read per request, so changes apply live)
+        const blocked: BlockedRequestStats = { total: 0, byType: {} };
+        await page.route('**/*', (route) => {
+            const request = route.request();
+            const resourceType = request.resourceType();
+            const { blockingPolicy } = this.getInstanceSettings(instanceId);
 
-            // Allow websocket connections
-            if (resourceType === 'websocket') {
+            if (!shouldBlockRequest(blockingPolicy, resourceType, request.url())) {
                 return route.continue();
             }
 
-            // Block ALL images - including profile pics
-            if (resourceType === 'image') return route.abort();
-
-            // Block ALL fonts
-            if (resourceType === 'font') return route.abort();
-
-            // Block ALL media (audio, video)
-            if (resourceType === 'media') return route.abort();
-
-            // Block other non-essential
-            if (['manifest', 'other', 'texttrack', 'eventsource', 'websocket'].includes(resourceType)) {
-                // Keep websocket for WhatsApp? WhatsApp uses websocket.
-                if (resourceType === 'websocket' && (url.includes('whatsapp') || url.includes('wa.me'))) {
-                    return route.continue();
-                }
-                if (resourceType !== 'websocket') return route.abort();
-            }
-
-            // Block stylesheets except WhatsApp's main CSS
-            if (resourceType === 'stylesheet') {
-                if (!url.includes('web.whatsapp.com')) {
-                    return route.abort();
-                }
-            }
-
-            // Block tracking, analytics, and CDNs we don't need
-            const blockedDomains = [
-                'google-analytics', 'facebook.com/tr', 'fbcdn.net',
-                'doubleclick', 'googletagmanager', 'analytics',
-                'crashlytics', 'sentry.io', 'hotjar', 'clarity.ms'
-            ];
-
-            if (blockedDomains.some(domain => url.includes(domain))) {
-                return route.abort();
-            }
-
-            return route.continue();
+            blockedRequests.add(request);
+            blocked.total++;
+            blocked.byType[resourceType] = (blocked.byType[resourceType] ?? 0) + 1;
+            return route.abort();
         });
 
         // Periodic Memory Cleanup (Force GC inside page if available)
-        setInterval(async () => {
+        const gcInterval = setInterval(async () => {
             if (page.isClosed()) return;
             try {
                 await page.evaluate(() => {
@@ -277,21 +457,101 @@ export class WhatsAppManager extends EventEmitter {
 
         // GC will be triggered when instance is cleaned up
 
+        // Keep the latest console errors and failed requests for the diagnostics endpoint
+        const consoleErrors = new RingBuffer<ConsoleEntry>(env.waDiagnosticsBufferSize);
+        const failedRequests = new RingBuffer<FailedRequest>(env.waDiagnosticsBufferSize);
+
+        page.on('console', (message) => {
+            if (message.type() !== 'error') return;
+            const { url, lineNumber } = message.location();
+            consoleErrors.push({
+                type: 'error',
+                text: message.text(),
+                location: url ? `${url}:${lineNumber}` : undefined,
+                at: new Date(),
+            });
+        });
+        page.on('pageerror', (error) => {
+            consoleErrors.push({ type: 'pageerror', text: error.stack || error.message, at: new Date() });
+        });
+        page.on('requestfailed', (request) => {
+            if (blockedRequests.has(request)) return;
+            failedRequests.push({
+                url: request.url(),
+                method: request.method(),
+                resourceType: request.resourceType(),
+                error: request.failure()?.errorText,
+                at: new Date(),
+            });
+        });
+        page.on('response', (response) => {
+            if (response.status() < 400) return;
+            const request = response.request();
+            failedRequests.push({
+                url: response.url(),
+                method: request.method(),
+                resourceType: request.resourceType(),
+                status: response.status(),
+                at: new Date(),
+            });
+        });
+
+        // Sample heap, DOM size and page latency; restart contexts that stay over the limits
+        const monitorInterval = setInterval(() => {
+            this.monitorResources(instance).catch((error) => {
+                logger.warn({ instanceId, error }, 'Failed to sample instance resources');
+            });
+        }, env.waMonitorInterval);
+
         const instance: WAInstance = {
             context,
             page,
             id: instanceId,
             status: 'disconnected',
+            stateChangedAt: Date.now(),
+            codeCycles: 0,
+            persistQueue: Promise.resolve(),
+            commands: new CommandQueue(env.waQueueConcurrency, env.waQueueMaxDepth, env.waCommandTimeout),
+            gcInterval,
+            monitorInterval,
+            consoleErrors,
+            failedRequests,
+            blocked,
+            saveInterval,
+            saveSession: saveState,
+            shard,
         };
 
         this.instances.set(instanceId, instance);
 
+        // A crashed renderer leaves the context open but useless
+        page.on('crash', () => this.handleCrash(instance, 'page_crash'));
+
         // Handle Disconnect and cleanup
         context.on('close', () => {
-            this.updateInstanceStatus(instanceId, 'DISCONNECTED');
-            instance.status = 'disconnected';
-            this.instances.delete(instanceId);
-            this.emit('disconnected', { instanceId });
+            const previous = instance.status;
+
+            // Keep a more specific terminal state (failed, banned, qr_timeout) if one was set
+            if (!TERMINAL_STATES.includes(instance.status)) {
+                this.setState(instance, 'disconnected', instance.restartReason || 'context_closed');
+            }
+            this.stopAlwaysOnline(instanceId);
+            this.stopPairing(instance);
+            instance.commands.cancel('Instance disconnected');
+            clearTimeout(instance.stateTimer);
+            clearInterval(instance.gcInterval);
+            clearInterval(instance.monitorInterval);
+            clearInterval(instance.saveInterval);
+            if (this.instances.get(instanceId) === instance) this.instances.delete(instanceId);
+            this.pool.release(instanceId);
+            this.emit('disconnected', {
+                instanceId,
+                reason: instance.statusReason,
+                ...(instance.plannedRestart && { planned: true }),
+            });
+
+            this.superviseClose(instance, previous);
+            this.releaseIfIdle(instanceId);
 
             // Trigger garbage collection after cleanup
             if (global.gc) {
@@ -304,17 +564,27 @@ export class WhatsAppManager extends EventEmitter {
 
     async connect(instanceId: string): Promise<WAInstance> {
         let instance = this.instances.get(instanceId);
-        if (!instance) instance = await this.createInstance(instanceId);
+        if (!instance) {
+            if (!await cluster.claim(instanceId)) {
+                throw new Error('Instance is owned by another node');
+            }
+
+            try {
+                instance = await this.createInstance(instanceId);
+            } catch (error) {
+                this.releaseIfIdle(instanceId);
+                throw error;
+            }
+        }
 
-        if (instance.status === 'connected' || instance.status === 'connecting') return instance;
+        if (instance.status === 'connected' || PENDING_STATES.includes(instance.status)) return instance;
 
-        instance.status = 'connecting';
-        this.emit('status_change', { instanceId, status: 'connecting' });
+        this.setState(instance, 'initializing', 'connect');
 
         // Run async without awaiting to not block server
         this.initializePage(instance).catch(err => {
             logger.error({ instanceId, err }, 'Failed to initialize page');
-            instance!.status = 'disconnected';
+            this.failConnection(instance!, 'failed', err instanceof Error ? err.message : 'init_error');
         });
 
         return instance;
@@ -326,109 +596,622 @@ export class WhatsAppManager extends EventEmitter {
         try {
             logger.info({ id }, 'Navigating to WhatsApp Web...');
             await page.goto('https://web.whatsapp.com', { waitUntil: 'domcontentloaded' });
+            this.setState(instance, 'loading', 'page_loaded');
 
-            // Wait for initial load
-            await page.waitForTimeout(3000);
-
-            // Inject WPPConnect/WA-JS
-            await this.injectWPPScript(page, id);
+            // wa-js is injected by the init script; nothing works until it hooked into WhatsApp
+            try {
+                await this.waitForWPP(instance, env.waLoadTimeout);
+            } catch {
+                logger.error({ id, waJs: loadWaJs().version }, 'WPP did not become ready');
+                await this.failConnection(instance, 'failed', 'wpp_not_ready');
+                return;
+            }
+            logger.info({ id }, 'WPP is ready');
+
+            // Connection events may have fired before WPP finished loading
+            const current = await page.evaluate(async () => {
+                const conn = window.WPP.conn;
+                const authCode = await conn.getAuthCode();
+                return {
+                    authenticated: !!conn.isAuthenticated(),
+                    mainReady: !!conn.isMainReady(),
+                    authCode: authCode?.fullCode ?? null,
+                };
+            });
 
-            // Wait for WhatsApp to load
-            await page.waitForTimeout(2000);
+            if (current.mainReady) {
+                await this.handleConnEvent(id, { event: 'main_ready' });
+            } else if (current.authenticated) {
+                await this.handleConnEvent(id, { event: 'authenticated' });
+            } else if (current.authCode) {
+                await this.handleConnEvent(id, { event: 'auth_code', code: current.authCode });
+            }
 
-            // Check for potential QR Code or Ready state loop
-            this.monitorState(instance);
+            // Waiting for WhatsApp to show the login screen or restore the session
+            if (instance.status === 'loading') {
+                this.armStateTimer(instance, env.waLoadTimeout, 'load_timeout');
+            }
 
         } catch (error) {
             logger.error({ id, error }, 'Error during page initialization');
+            await this.failConnection(instance, 'failed', error instanceof Error ? error.message : 'init_error');
+        }
+    }
+
+    // Drive the login flow from WPP.conn events (bridged by the init script in createInstance)
+    private async handleConnEvent(instanceId: string, payload: any) {
+        const instance = this.instances.get(instanceId);
+        if (!instance) return;
+
+        switch (payload?.event) {
+            case 'auth_code':
+                if (payload.code) await this.handleQRCode(instance, payload.code);
+                break;
+
+            // QR scanned / code entered (or session restored): WA Web is syncing chats
+            case 'authenticated':
+                if (['loading', 'qr', 'pairing'].includes(instance.status)) {
+                    instance.qrCode = undefined;
+                    instance.qrCodeBase64 = undefined;
+                    this.stopPairing(instance);
+                    this.setState(instance, 'syncing', 'authenticated');
+                    this.emit('authenticated', { instanceId });
+                }
+                break;
+
+            case 'main_ready':
+                if (PENDING_STATES.includes(instance.status)) {
+                    await this.completeConnection(instance);
+                }
+                break;
+
+            case 'logout_reason':
+                instance.logoutReason = payload.reason;
+                break;
+
+            // The session is gone (unlinked from the phone, or locked by WhatsApp)
+            case 'logout':
+            case 'require_auth':
+                if (instance.status === 'connected' || instance.status === 'syncing') {
+                    await this.handleLoggedOut(instance, instance.logoutReason || payload.event);
+                }
+                break;
+
+            case 'stream_mode':
+                await this.handleStreamMode(instance, payload.mode);
+                break;
+        }
+    }
+
+    private async handleLoggedOut(instance: WAInstance, reason: string) {
+        const { id } = instance;
+
+        if (reason === 'account_locked') {
+            await this.handleBanned(instance, reason);
+            return;
+        }
+
+        logger.warn({ id, reason }, 'Session logged out from the phone');
+        this.emit('auth_failure', { instanceId: id, reason });
+
+        // Nothing to restore: close for good and drop the stale session
+        instance.closing = true;
+        instance.discardSession = true;
+        await this.failConnection(instance, 'disconnected', reason);
+        await this.removeSession(id);
+    }
+
+    private async handleBanned(instance: WAInstance, reason: string) {
+        const { id } = instance;
+
+        logger.error({ id, reason }, 'Account banned or restricted');
+        this.emit('auth_failure', { instanceId: id, reason });
+
+        instance.closing = true;
+        await this.failConnection(instance, 'banned', reason);
+    }
+
+    private async handleStreamMode(instance: WAInstance, mode: string) {
+        const { id } = instance;
+
+        switch (mode) {
+            // WhatsApp Web was opened elsewhere ("use here" screen)
+            case 'CONFLICT': {
+                if (this.getInstanceSettings(id).autoTakeover) {
+                    logger.warn({ id }, 'Session opened elsewhere, taking over');
+                    await instance.page.evaluate(() => window.WPP.whatsapp.Socket.takeover()).catch((err) => {
+                        logger.error({ id, err }, 'Failed to take over session');
+                    });
+                    return;
+                }
+
+                if (instance.status !== 'connected' && instance.status !== 'syncing') return;
+
+                // Keep the saved session: connecting again takes the session back
+                logger.warn({ id }, 'Session opened elsewhere, disconnecting');
+                instance.closing = true;
+                await this.failConnection(instance, 'disconnected', 'conflict');
+                break;
+            }
+
+            case 'TOS_BLOCK':
+            case 'SMB_TOS_BLOCK':
+                await this.handleBanned(instance, mode.toLowerCase());
+                break;
         }
     }
 
-    private async injectWPPScript(page: any, id: string) {
+    private async removeSession(instanceId: string) {
         try {
-            // Use official WPPConnect wa-js package
-            await page.addScriptTag({
-                url: 'https://cdn.jsdelivr.net/npm/@wppconnect/wa-js@3/dist/wppconnect-wa.js'
-            });
-            logger.info({ id }, 'WPPConnect script injected');
+            await sessionStore.remove(instanceId);
+            logger.info({ instanceId }, 'Saved session removed');
+        } catch (error) {
+            logger.error({ instanceId, error }, 'Failed to remove saved session');
+        }
+    }
 
-            // Wait for WPP to initialize
-            await page.waitForTimeout(2000);
+    private async handleQRCode(instance: WAInstance, code: string) {
+        const { id } = instance;
 
-            // Check if WPP is available
-            const wppAvailable = await page.evaluate(() => typeof window.WPP !== 'undefined');
-            if (wppAvailable) {
-                logger.info({ id }, 'WPP is available');
-            } else {
-                logger.warn({ id }, 'WPP object not available after injection');
+        // A pairing code is being used instead of the QR
+        if (!['loading', 'qr'].includes(instance.status) || instance.qrCode === code) return;
+
+        if (instance.status !== 'qr') {
+            instance.codeCycles = 0;
+            this.setState(instance, 'qr', 'qr_generated');
+        }
+
+        if (++instance.codeCycles > env.waQrMaxCycles) {
+            await this.codeTimeout(instance);
+            return;
+        }
+
+        instance.qrCode = code;
+        instance.qrCodeBase64 = await QRCode.toDataURL(code);
+        logger.info({ id, cycle: instance.codeCycles }, 'QR Code generated');
+        this.emit('qr', { instanceId: id, qr: code, qrBase64: instance.qrCodeBase64 });
+    }
+
+    // Fail the connection if the instance is still in the same state after `ms`
+    private armStateTimer(instance: WAInstance, ms: number, reason: string) {
+        clearTimeout(instance.stateTimer);
+
+        const state = instance.status;
+        instance.stateTimer = setTimeout(() => {
+            if (instance.status !== state) return;
+            logger.warn({ id: instance.id, state, reason }, 'Connection step timed out');
+            this.failConnection(instance, 'failed', reason);
+        }, ms);
+    }
+
+    private async completeConnection(instance: WAInstance) {
+        const { id } = instance;
+        const wasSyncing = instance.status === 'syncing';
+
+        logger.info({ id }, 'WhatsApp Connected!');
+        instance.qrCode = undefined;
+        instance.qrCodeBase64 = undefined;
+        this.stopPairing(instance);
+        this.setState(instance, 'connected', 'ready');
+
+        // Subscribe to WPP events (inbound messages, acks, ...)
+        await this.bindPageEvents(instance);
+
+        // Load and apply behavior settings (also on every reconnect)
+        await this.loadInstanceSettings(id);
+
+        // Extract profile info
+        await this.extractProfileInfo(instance);
+
+        if (!wasSyncing) this.emit('authenticated', { instanceId: id });
+        this.emit('ready', { instanceId: id });
+
+        const recovery = this.reconnects.get(id);
+        if (recovery) {
+            this.reconnects.delete(id);
+            logger.info({ id, attempts: recovery.attempt, planned: !!recovery.planned }, 'Instance restored');
+            if (recovery.announced) {
+                this.emit('reconnected', {
+                    instanceId: id,
+                    attempts: recovery.attempt,
+                    reason: recovery.reason,
+                    downtime: Date.now() - recovery.since,
+                });
             }
-        } catch (scriptError) {
-            logger.warn({ id, scriptError }, 'Failed to inject WPPConnect script');
         }
     }
 
-    private async monitorState(instance: WAInstance) {
+    // QR / pairing codes were shown the configured number of times without being used
+    private async codeTimeout(instance: WAInstance) {
+        const { id } = instance;
+        const mode = instance.status === 'pairing' ? 'pairing' : 'qr';
+
+        logger.warn({ id, mode, cycles: env.waQrMaxCycles }, 'Login code not used in time, giving up');
+        this.emit('qr_timeout', { instanceId: id, mode, cycles: env.waQrMaxCycles });
+        await this.failConnection(instance, 'disconnected', 'qr_timeout');
+    }
+
+    // Move to a terminal state and release the browser context
+    private async failConnection(instance: WAInstance, state: ConnectionState, reason: string) {
+        clearTimeout(instance.stateTimer);
+        this.stopPairing(instance);
+        instance.qrCode = undefined;
+        instance.qrCodeBase64 = undefined;
+        this.setState(instance, state, reason);
+        await instance.context.close().catch(() => { });
+    }
+
+    // ==========================================
+    // Supervisor (crash recovery)
+    // ==========================================
+
+    private handleCrash(instance: WAInstance, reason: string) {
+        if (instance.closing || instance.restartReason) return;
+
+        logger.error({ id: instance.id, reason, status: instance.status }, 'Instance crashed');
+        this.restartContext(instance, reason);
+    }
+
+    // Sample the page; after enough consecutive samples over a limit, restart the context
+    private async monitorResources(instance: WAInstance) {
+        const { id, page, commands } = instance;
+        if (instance.status !== 'connected' || instance.restartReason) return;
+
+        let sample;
+        try {
+            sample = await commands.run(() => sampleResources(page), {
+                timeout: env.waMaxEvaluateLatency || env.waCommandTimeout,
+                label: 'resource_sample',
+            });
+        } catch (error) {
+            // A page that can't answer in time counts as over the latency limit
+            if (!(error instanceof CommandError && error.code === 'TIMEOUT')) throw error;
+            sample = {
+                ...(instance.resources ?? { heapUsedMb: null, heapLimitMb: null, domNodes: 0 }),
+                evaluateLatencyMs: env.waMaxEvaluateLatency || env.waCommandTimeout,
+                sampledAt: new Date(),
+            };
+        }
+
+        const overLimit = exceededLimits(sample);
+        const strikes = overLimit.length > 0 ? (instance.resources?.strikes ?? 0) + 1 : 0;
+        const restarts = this.resourceRestarts.get(id) ?? 0;
+        instance.resources = { ...sample, overLimit, strikes, restarts };
+
+        if (strikes < env.waMonitorStrikes) return;
+
+        // Graceful restart: flush the session, close the context and let the supervisor reconnect
+        logger.warn({ id, resources: instance.resources }, 'Instance over resource limits, restarting context');
+        this.resourceRestarts.set(id, restarts + 1);
+        await instance.saveSession();
+        await this.restartContext(instance, `resource_limit:${overLimit.join(',')}`);
+    }
+
+    // Close the instance's context; the context close handler takes care of restoring it
+    private async restartContext(instance: WAInstance, reason: string, planned = false) {
+        instance.restartReason = reason;
+        instance.plannedRestart = planned;
+        await instance.context.close().catch(() => { });
+    }
+
+    // Decide whether a closed context should be brought back
+    private superviseClose(instance: WAInstance, previous: ConnectionState) {
+        const { id } = instance;
+        const recovering = this.reconnects.has(id);
+
+        if (instance.closing || instance.status === 'banned' || instance.statusReason === 'qr_timeout') {
+            // Closed on purpose, or the session can't be restored without the phone
+            if (recovering) this.cancelReconnect(id);
+            return;
+        }
+
+        // Restore sessions that were up, and keep retrying while a restore is in progress
+        if (previous === 'connected' || recovering) {
+            this.scheduleReconnect(id, instance.restartReason || instance.statusReason || 'context_closed', instance.plannedRestart);
+        }
+    }
+
+    private scheduleReconnect(instanceId: string, reason: string, planned = false) {
+        const recovery = this.reconnects.get(instanceId) || { attempt: 0, since: Date.now(), reason, planned };
+        this.reconnects.set(instanceId, recovery);
+        clearTimeout(recovery.timer);
+
+        if (recovery.attempt >= env.waReconnectMaxAttempts) {
+            logger.error({ instanceId, attempts: recovery.attempt, reason: recovery.reason }, 'Giving up reconnecting instance');
+            this.reconnects.delete(instanceId);
+            this.releaseIfIdle(instanceId);
+            return;
+        }
+
+        recovery.attempt++;
+
+        // Exponential backoff with jitter (between half and the full delay)
+        const backoff = Math.min(env.waReconnectMaxDelay, env.waReconnectBaseDelay * 2 ** (recovery.attempt - 1));
+        const delay = Math.round(backoff / 2 + Math.random() * backoff / 2);
+
+        logger.warn({ instanceId, attempt: recovery.attempt, delay, reason }, 'Scheduling reconnect');
+        // A planned restart is only announced once its first attempt failed
+        if (!recovery.planned || recovery.attempt > 1) {
+            recovery.announced = true;
+            this.emit('reconnecting', { instanceId, attempt: recovery.attempt, delay, reason });
+        }
+
+        recovery.timer = setTimeout(() => {
+            recovery.timer = undefined;
+            this.restoreInstance(instanceId).catch((error) => {
+                logger.error({ instanceId, error }, 'Reconnect attempt failed');
+                this.scheduleReconnect(instanceId, error instanceof Error ? error.message : 'reconnect_error');
+            });
+        }, delay);
+    }
+
+    private async restoreInstance(instanceId: string) {
+        if (!this.reconnects.has(instanceId)) return;
+
+        // Without a saved session the phone has to scan a new QR, nothing to restore
+        if (!await sessionStore.exists(instanceId)) {
+            logger.warn({ instanceId }, 'No saved session to restore');
+            this.cancelReconnect(instanceId);
+            return;
+        }
+
+        // connect() relaunches the shared browser if it died
+        await this.connect(instanceId);
+    }
+
+    private cancelReconnect(instanceId: string) {
+        const recovery = this.reconnects.get(instanceId);
+        if (recovery) {
+            clearTimeout(recovery.timer);
+            this.reconnects.delete(instanceId);
+            this.releaseIfIdle(instanceId);
+        }
+    }
+
+    // Give the cluster lease back once nothing runs or restores the instance here
+    private releaseIfIdle(instanceId: string) {
+        if (this.instances.has(instanceId) || this.reconnects.has(instanceId)) return;
+        cluster.release(instanceId).catch(() => { });
+    }
+
+    // ==========================================
+    // Command Queue
+    // ==========================================
+
+    getQueueStats(instanceId: string) {
+        return this.instances.get(instanceId)?.commands.getStats();
+    }
+
+    getResourceStats(instanceId: string) {
+        return this.instances.get(instanceId)?.resources;
+    }
+
+    getBlockedRequestStats(instanceId: string) {
+        return this.instances.get(instanceId)?.blocked;
+    }
+
+    // ==========================================
+    // Diagnostics
+    // ==========================================
+
+    /**
+     * What the page is showing and what went wrong in it lately. Null when the instance is not running here.
+     */
+    async getDiagnostics(instanceId: string, options: { screenshot?: boolean; limit?: number } = {}): Promise<InstanceDiagnostics | null> {
+        const instance = this.instances.get(instanceId);
+        if (!instance) return null;
+
+        const { page, commands } = instance;
+        const { screenshot = true, limit } = options;
+
+        // Page access goes through the queue (resizing must not interleave with other commands);
+        // a hung or busy page still gets its buffers reported
+        const pageInfo = await commands.run(async () => ({
+            versions: await readPageVersions(page),
+            screenshot: screenshot ? await captureScreenshot(page) : null,
+        }), { label: 'diagnostics' }).catch((error) => {
+            logger.warn({ instanceId, error }, 'Failed to read page diagnostics');
+            return { versions: { waJs: null, whatsappWeb: null }, screenshot: null };
+        });
+
+        return {
+            url: page.isClosed() ? null : page.url(),
+            ...pageInfo,
+            consoleErrors: instance.consoleErrors.toArray(limit),
+            failedRequests: instance.failedRequests.toArray(limit),
+        };
+    }
+
+    // Drop the commands still waiting for the page; returns how many were cancelled
+    cancelCommands(instanceId: string) {
+        return this.instances.get(instanceId)?.commands.cancel() ?? 0;
+    }
+
+    // ==========================================
+    // Browser Pool
+    // ==========================================
+
+    getPoolStats() {
+        return this.pool.getStats();
+    }
+
+    /**
+     * Drain a browser shard, move its sessions to other shards and relaunch the process.
+     * Instances on other shards are not touched.
+     */
+    async recycleBrowser(index: number) {
+        if (!this.pool.hasShard(index)) throw new Error(`Browser shard ${index} not found`);
+
+        this.pool.drain(index);
+
+        const instanceIds = this.pool.getShardInstances(index);
+        await Promise.all(instanceIds.map((instanceId) => {
+            const instance = this.instances.get(instanceId);
+            return instance ? this.restartContext(instance, 'browser_recycle', true) : undefined;
+        }));
+
+        await this.pool.recycle(index);
+        return { shard: index, instances: instanceIds };
+    }
+
+    // ==========================================
+    // Connection State
+    // ==========================================
+
+    private setState(instance: WAInstance, to: ConnectionState, reason?: string) {
+        const { id } = instance;
+        const from = instance.status;
+        if (from === to) return false;
+
+        if (!STATE_TRANSITIONS[from].includes(to)) {
+            logger.warn({ id, from, to, reason }, 'Ignoring invalid state transition');
+            return false;
+        }
+
+        instance.status = to;
+        instance.statusReason = reason;
+        instance.stateChangedAt = Date.now();
+
+        clearTimeout(instance.stateTimer);
+        if (to === 'syncing') this.armStateTimer(instance, env.waSyncTimeout, 'sync_timeout');
+
+        // Transitions of an operator restart are flagged so consumers don't treat them as outages
+        const planned = instance.plannedRestart || this.reconnects.get(id)?.planned;
+
+        logger.info({ id, from, to, reason }, 'Instance state changed');
+        this.emit('status_change', { instanceId: id, from, status: to, reason, ...(planned && { planned: true }) });
+
+        // Once the lease is lost the row belongs to the new owner: don't overwrite its status
+        if (instance.restartReason === 'lease_lost') return true;
+
+        // Persist in order, without blocking the caller
+        instance.persistQueue = instance.persistQueue
+            .then(() => persistStateTransition(id, from, to, reason))
+            .catch((error) => logger.error({ id, error }, 'Failed to persist state transition'));
+
+        return true;
+    }
+
+    // Register WPP listeners in the page that forward events through __waEmit.
+    // Guarded on the WPP object so a re-injected script gets fresh listeners.
+    private async bindPageEvents(instance: WAInstance) {
         const { page, id } = instance;
 
-        let attempts = 0;
-        const checkInterval = setInterval(async () => {
-            if (attempts > 120) { // 2 minutes timeout
-                clearInterval(checkInterval);
-                return;
-            }
-            attempts++;
+        try {
+            await page.evaluate(() => {
+                const WPP = window.WPP;
+                if (!WPP || WPP.__waBridged) return;
+                WPP.__waBridged = true;
+
+                WPP.on('chat.new_message', (msg: any) => {
+                    try {
+                        window.__waEmit('message', window.__waSerializeMsg(msg));
+                    } catch (e) { /* ignore */ }
+                });
 
-            try {
-                // Check if connected (Main page element present)
-                const isConnected = await page.$('#pane-side');
-                if (isConnected) {
-                    if (instance.status !== 'connected') {
-                        logger.info({ id }, 'WhatsApp Connected!');
-                        instance.status = 'connected';
-                        instance.qrCode = undefined;
-                        instance.qrCodeBase64 = undefined;
-
-                        // Re-inject WPP script if not available (for messaging)
-                        const wppAvailable = await page.evaluate(() => typeof window.WPP !== 'undefined');
-                        if (!wppAvailable) {
-                            logger.info({ id }, 'Re-injecting WPP script after connection...');
-                            await this.injectWPPScript(page, id);
-                        }
+                WPP.on('chat.msg_ack_change', (event: any) => {
+                    try {
+                        window.__waEmit('message_ack', {
+                            ack: event.ack,
+                            ids: (event.ids || []).map((id: any) => id?._serialized || String(id)),
+                            chatId: event.chat?._serialized || String(event.chat || ''),
+                        });
+                    } catch (e) { /* ignore */ }
+                });
 
-                        // Extract profile info
-                        await this.extractProfileInfo(instance);
+                WPP.on('call.incoming_call', (call: any) => {
+                    try {
+                        window.__waEmit('call', {
+                            id: call.id,
+                            from: call.sender?._serialized || String(call.sender || ''),
+                            isGroup: !!call.isGroup,
+                            isVideo: !!call.isVideo,
+                            timestamp: call.offerTime,
+                        });
+                    } catch (e) { /* ignore */ }
+                });
+            });
+            logger.info({ id }, 'WPP event bridge bound');
+        } catch (error) {
+            logger.error({ id, error }, 'Failed to bind WPP event bridge');
+        }
+    }
 
-                        this.updateInstanceStatus(id, 'CONNECTED');
-                        this.emit('ready', { instanceId: id });
-                        this.emit('authenticated', { instanceId: id });
-                        clearInterval(checkInterval);
+    // Dispatch an event forwarded from the page
+    private handlePageEvent(instanceId: string, event: string, payload: any) {
+        const settings = this.getInstanceSettings(instanceId);
+
+        switch (event) {
+            case 'conn':
+                this.handleConnEvent(instanceId, payload).catch((err) => {
+                    logger.error({ instanceId, err }, 'Failed to handle connection event');
+                });
+                break;
+            case 'message': {
+                if (!payload?.id) return;
+                const message = this.formatMessage(payload);
+
+                this.emit('message_create', { instanceId, message });
+                if (!message.fromMe) {
+                    this.emit('message', { instanceId, message });
+
+                    // Auto-read messages if setting is enabled (ignored groups are left unread)
+                    if (settings.readMessages && !(settings.ignoreGroups && message.isGroup)) {
+                        this.markChatAsRead(instanceId, message.from).catch((err) => {
+                            logger.warn({ instanceId, err }, 'Failed to auto-read message');
+                        });
                     }
-                    return;
                 }
+                break;
+            }
+            case 'message_ack': {
+                const ack = Number(payload?.ack);
 
-                // Check for QR Code
-                const qrCanvas = await page.$('canvas');
-                if (qrCanvas) {
-                    // Generate Base64 for display
-                    const qrBase64 = await page.evaluate(() => {
-                        const canvas = document.querySelector('canvas');
-                        return canvas ? canvas.toDataURL() : null;
+                for (const messageId of payload?.ids || []) {
+                    trackMessageAck(messageId, ack);
+                    this.emit('message_ack', { instanceId, messageId, chatId: payload.chatId, ack });
+                }
+                break;
+            }
+            case 'call': {
+                // Reject calls if setting is enabled (ignored groups are left alone)
+                const rejected = settings.rejectCalls && !(settings.ignoreGroups && payload?.isGroup);
+                if (rejected) {
+                    this.rejectCall(instanceId, payload.id).catch((err) => {
+                        logger.warn({ instanceId, err }, 'Failed to reject call');
                     });
-
-                    // Use a hash of the base64 as the QR identifier to detect changes
-                    if (qrBase64 && instance.qrCodeBase64 !== qrBase64) {
-                        instance.status = 'qr';
-                        instance.qrCode = qrBase64; // Use base64 as the identifier too
-                        instance.qrCodeBase64 = qrBase64;
-                        logger.info({ id }, 'QR Code generated');
-                        this.emit('qr', { instanceId: id, qr: qrBase64, qrBase64 });
-                    }
                 }
 
-            } catch (err) {
-                // ignore transient errors
+                this.emit('call', { instanceId, call: { ...payload, rejected } });
+                break;
             }
-        }, 1000);
+            default:
+                logger.debug({ instanceId, event }, 'Unhandled page event');
+        }
+    }
+
+    // Normalize a serialized page message into a stable payload
+    private formatMessage(raw: any): WAMessage {
+        const from = raw.from || '';
+        return {
+            id: raw.id,
+            from,
+            to: raw.to || '',
+            author: raw.author || undefined,
+            body: raw.body || '',
+            type: raw.type || 'unknown',
+            timestamp: Number(raw.timestamp) || Math.floor(Date.now() / 1000),
+            fromMe: !!raw.fromMe,
+            isGroup: !!raw.isGroup || from.endsWith('@g.us'),
+            isForwarded: !!raw.isForwarded,
+            isStatus: !!raw.isStatus,
+            isStarred: !!raw.isStarred,
+            hasMedia: !!raw.hasMedia,
+            media: raw.media || undefined,
+            ack: raw.ack ?? undefined,
+            hasQuotedMsg: !!raw.quotedMsg,
+            quotedMsg: raw.quotedMsg || undefined,
+        };
     }
 
     getStatus(instanceId: string) {
@@ -437,17 +1220,102 @@ export class WhatsAppManager extends EventEmitter {
         return instance.status;
     }
 
+    getStatusReason(instanceId: string) {
+        return this.instances.get(instanceId)?.statusReason;
+    }
+
     getQRCode(instanceId: string) {
         const instance = this.instances.get(instanceId);
         return { qr: instance?.qrCode, qrBase64: instance?.qrCodeBase64 };
     }
 
-    // Helper to update DB status
-    private async updateInstanceStatus(id: string, status: string) {
-        await prisma.instance.update({
-            where: { id },
-            data: { status: status as any }
-        });
+    getPairCode(instanceId: string) {
+        return this.instances.get(instanceId)?.pairCode;
+    }
+
+    // ==========================================
+    // Pairing Code Login
+    // ==========================================
+
+    /**
+     * Link the instance using WhatsApp's "link with phone number" flow instead of the QR.
+     * Returns the 8-character code to be typed on the phone; refreshed codes are emitted as `pair_code`.
+     */
+    async requestPairingCode(instanceId: string, phoneNumber: string) {
+        const phone = phoneNumber.replace(/\D/g, '');
+        if (phone.length < 8 || phone.length > 15) {
+            throw new Error('Invalid phone number');
+        }
+
+        const instance = await this.connect(instanceId);
+        if (instance.status === 'connected') {
+            throw new Error('Instance already connected');
+        }
+
+        await this.waitForWPP(instance);
+        if (!['loading', 'qr', 'pairing'].includes(instance.status)) {
+            throw new Error(`Cannot request a pairing code while ${instance.status}`);
+        }
+
+        instance.pairPhone = phone;
+        const code = await this.generatePairCode(instance);
+
+        // Keep a valid code on screen until the phone links
+        clearInterval(instance.pairCodeInterval);
+        instance.pairCodeInterval = setInterval(() => {
+            this.generatePairCode(instance).catch((err) => {
+                logger.warn({ instanceId, err }, 'Failed to refresh pairing code');
+            });
+        }, PAIR_CODE_REFRESH_INTERVAL);
+
+        return { code, phoneNumber: phone };
+    }
+
+    private async generatePairCode(instance: WAInstance) {
+        const { id, page, pairPhone } = instance;
+        if (!pairPhone) throw new Error('Pairing not requested');
+
+        const code: string = await instance.commands.run(() => page.evaluate(async (phone) => {
+            return await window.WPP.conn.genLinkDeviceCodeForPhoneNumber(phone, true);
+        }, pairPhone), { label: 'pair_code' });
+
+        if (!['loading', 'qr', 'pairing'].includes(instance.status)) return code;
+
+        if (instance.status !== 'pairing') {
+            instance.codeCycles = 0;
+            instance.qrCode = undefined;
+            instance.qrCodeBase64 = undefined;
+            this.setState(instance, 'pairing', 'pair_code_requested');
+        }
+
+        if (++instance.codeCycles > env.waQrMaxCycles) {
+            await this.codeTimeout(instance);
+            return code;
+        }
+
+        if (instance.pairCode !== code) {
+            instance.pairCode = code;
+            logger.info({ id }, 'Pairing code generated');
+            this.emit('pair_code', { instanceId: id, code });
+        }
+
+        return code;
+    }
+
+    private stopPairing(instance: WAInstance) {
+        clearInterval(instance.pairCodeInterval);
+        instance.pairCodeInterval = undefined;
+        instance.pairCode = undefined;
+        instance.pairPhone = undefined;
+    }
+
+    // Wait until wa-js has finished loading WhatsApp's internal modules
+    private async waitForWPP(instance: WAInstance, timeout = 60000) {
+        try {
+            await instance.page.waitForFunction(() => !!window.WPP?.isReady, undefined, { timeout });
+        } catch {
+            throw new Error('WPP did not become ready in time');
+        }
     }
 
     // Extract and save profile info (number, name) after connection
@@ -455,9 +1323,6 @@ export class WhatsAppManager extends EventEmitter {
         const { page, id } = instance;
 
         try {
-            // Wait a bit for WPP to fully initialize
-            await page.waitForTimeout(3000);
-
             // Try to get profile info using WPP
             const profileInfo = await page.evaluate(async () => {
                 if (typeof window.WPP === 'undefined' || !window.WPP.conn) {
@@ -494,11 +1359,24 @@ export class WhatsAppManager extends EventEmitter {
         }
     }
 
-    // Stub for reconnectAll (can be implemented similarly to before)
+    /**
+     * Restore instances that were connected. In cluster mode this also picks up
+     * instances orphaned by a dead node; the ones leased by other nodes are skipped.
+     */
     async reconnectAll() {
         const instances = await prisma.instance.findMany({ where: { status: 'CONNECTED' } });
         for (const inst of instances) {
-            this.connect(inst.id); // fire and forget
+            if (this.instances.has(inst.id) || this.reconnects.has(inst.id)) continue;
+            if (this.instances.size >= env.waMaxInstances) {
+                logger.warn({ limit: env.waMaxInstances }, 'Node at capacity, leaving instances to other nodes');
+                break;
+            }
+            if (!await cluster.claim(inst.id)) continue;
+
+            // fire and forget
+            this.connect(inst.id).catch((error) => {
+                logger.error({ instanceId: inst.id, error }, 'Failed to restore instance');
+            });
         }
     }
 
@@ -508,73 +1386,576 @@ export class WhatsAppManager extends EventEmitter {
 
 
     async sendMessage(instanceId: string, to: string, content: string) {
+        // Format number (simple version)
+        const chatId = to.includes('@') ? to : `${to}@c.us`;
+
+        return await this.evaluate(instanceId, async ({ chatId, content }) => {
+            // Use sendTextMessage (not sendText) - correct API for wa-js@3
+            const result = await window.WPP.chat.sendTextMessage(chatId, content);
+
+            // sendMsgResult is a page-side promise, only return serializable fields
+            return { id: result.id as string, ack: result.ack as number, to: chatId };
+        }, { chatId, content });
+    }
+
+    // Download media on the server side and send it through the page
+    async sendMedia(instanceId: string, to: string, mediaUrl: string, options: MediaOptions = {}) {
+        this.getConnectedInstance(instanceId);
+
+        const media = await fetchMedia(mediaUrl);
+        return this.sendMediaBase64(instanceId, to, media.data.toString('base64'), media.mimetype, {
+            ...options,
+            filename: options.filename || media.filename,
+        });
+    }
+
+    async sendMediaBase64(instanceId: string, to: string, base64: string, mimetype: string, options: MediaOptions = {}) {
+        // Accept both raw base64 and data URLs
+        const data = base64.replace(/^data:[^;]+;base64,/, '');
+        if (Buffer.byteLength(data, 'base64') > env.waMediaMaxSize) {
+            throw new Error(`Media exceeds the maximum size of ${env.waMediaMaxSize} bytes`);
+        }
+
+        const type = options.type || detectMediaType(mimetype, options.caption);
+        const chatId = toWid(to);
+
+        const result = await this.evaluate(instanceId, async ({ chatId, dataUrl, fileOptions }) => {
+            const result = await window.WPP.chat.sendFileMessage(chatId, dataUrl, fileOptions);
+            return { id: result.id as string, ack: result.ack as number };
+        }, {
+            chatId,
+            dataUrl: `data:${mimetype};base64,${data}`,
+            fileOptions: {
+                type,
+                mimetype,
+                caption: type === 'sticker' ? undefined : options.caption,
+                filename: buildFilename(mimetype, options.filename),
+                ...(type === 'audio' && { isPtt: !!options.ptt }),
+            },
+        }, { timeout: env.waMediaTimeout, label: 'send_media' });
+
+        return { ...result, to: chatId, type };
+    }
+
+    async sendLocation(instanceId: string, to: string, latitude: number, longitude: number, description?: string) {
+        const message = await this.evaluate(instanceId, async ({ chatId, location }) => {
+            const result = await window.WPP.chat.sendLocationMessage(chatId, location);
+            return await window.__waSentMsg(result);
+        }, { chatId: toWid(to), location: { lat: latitude, lng: longitude, name: description } });
+
+        return this.formatMessage(message);
+    }
+
+    async sendContact(instanceId: string, to: string, contactId: string) {
+        const message = await this.evaluate(instanceId, async ({ chatId, contactId }) => {
+            const result = await window.WPP.chat.sendVCardContactMessage(chatId, contactId);
+            return await window.__waSentMsg(result);
+        }, { chatId: toWid(to), contactId: toWid(contactId) });
+
+        return this.formatMessage(message);
+    }
+
+    async sendPoll(instanceId: string, to: string, title: string, options: string[], pollOptions: { allowMultipleAnswers?: boolean } = {}) {
+        const message = await this.evaluate(instanceId, async ({ chatId, title, options, selectableCount }) => {
+            const result = await window.WPP.chat.sendCreatePollMessage(chatId, title, options, { selectableCount });
+            return await window.__waSentMsg(result);
+        }, {
+            chatId: toWid(to),
+            title,
+            options,
+            // 0 lets the recipient select any number of options
+            selectableCount: pollOptions.allowMultipleAnswers ? 0 : 1,
+        });
+
+        return this.formatMessage(message);
+    }
+
+    async sendPresence(instanceId: string, to: string, presence: PresenceState) {
+        const chatId = toWid(to);
+
+        await this.evaluate(instanceId, async ({ chatId, presence }) => {
+            const WPP = window.WPP;
+            switch (presence) {
+                case 'available': await WPP.conn.markAvailable(true); break;
+                case 'unavailable': await WPP.conn.markAvailable(false); break;
+                case 'composing': await WPP.chat.markIsComposing(chatId); break;
+                case 'recording': await WPP.chat.markIsRecording(chatId); break;
+                case 'paused': await WPP.chat.markIsPaused(chatId); break;
+            }
+        }, { chatId, presence });
+
+        return { to: chatId, presence };
+    }
+
+    async reactToMessage(instanceId: string, messageId: MessageRef, reaction: string) {
+        const message = await this.evaluate(instanceId, async ({ ids, reaction }) => {
+            const msg = await window.__waFindMsg(ids);
+            if (!msg) return null;
+
+            // An empty reaction removes the current one
+            await window.WPP.chat.sendReactionToMessage(msg.id, reaction || false);
+            return window.__waSerializeMsg(msg);
+        }, { ids: this.messageIdCandidates(messageId), reaction });
+
+        if (!message) throw new NotFoundError(`Message not found: ${this.describeMessageRef(messageId)}`);
+        return this.formatMessage(message);
+    }
+
+    async editMessage(instanceId: string, messageId: MessageRef, newText: string) {
+        const message = await this.evaluate(instanceId, async ({ ids, newText }) => {
+            const msg = await window.__waFindMsg(ids);
+            if (!msg) return null;
+
+            const result = await window.WPP.chat.editMessage(msg.id, newText);
+            return await window.__waSentMsg(result);
+        }, { ids: this.messageIdCandidates(messageId), newText });
+
+        if (!message) throw new NotFoundError(`Message not found: ${this.describeMessageRef(messageId)}`);
+        return this.formatMessage(message);
+    }
+
+    async deleteMessage(instanceId: string, messageId: MessageRef, forEveryone: boolean = true) {
+        const result = await this.evaluate(instanceId, async ({ ids, forEveryone }) => {
+            const msg = await window.__waFindMsg(ids);
+            if (!msg) return null;
+
+            const chatId = msg.id.remote._serialized || String(msg.id.remote);
+            const result = await window.WPP.chat.deleteMessage(chatId, msg.id._serialized, false, forEveryone);
+            const deleted = Array.isArray(result) ? result[0] : result;
+            return { id: deleted.id, isRevoked: !!deleted.isRevoked, isDeleted: !!deleted.isDeleted };
+        }, { ids: this.messageIdCandidates(messageId), forEveryone });
+
+        if (!result) throw new NotFoundError(`Message not found: ${this.describeMessageRef(messageId)}`);
+        return result;
+    }
+
+    // ==========================================
+    // Page Helpers
+    // ==========================================
+
+    private getConnectedInstance(instanceId: string) {
         const instance = this.instances.get(instanceId);
         if (!instance || instance.status !== 'connected') throw new Error('Instance not connected');
+        return instance;
+    }
 
-        // Format number (simple version)
-        const chatId = to.includes('@') ? to : `${to}@c.us`;
+    // Run a function inside the instance page once WPP is available, through the instance command queue
+    private async evaluate<R, A>(instanceId: string, fn: (arg: A) => R | Promise<R>, arg: A, options?: CommandOptions): Promise<R> {
+        const { page, commands } = this.getConnectedInstance(instanceId);
+
+        return await commands.run(async () => {
+            const wppAvailable = await page.evaluate(() => typeof window.WPP !== 'undefined');
+            if (!wppAvailable) throw new Error('WPP not loaded');
+
+            return await page.evaluate(fn as any, arg) as R;
+        }, options);
+    }
+
+    // Serialized ids to try for a message reference (both directions when fromMe is unknown)
+    private messageIdCandidates(ref: MessageRef): string[] {
+        if (typeof ref === 'string') return [ref];
+
+        const chatId = toWid(ref.chatId);
+        const suffix = ref.participant ? `_${toWid(ref.participant)}` : '';
+        const directions = ref.fromMe === undefined ? [true, false] : [ref.fromMe];
+        return directions.map(fromMe => `${fromMe}_${chatId}_${ref.id}${suffix}`);
+    }
+
+    private describeMessageRef(ref: MessageRef): string {
+        return typeof ref === 'string' ? ref : `${ref.id} in ${ref.chatId}`;
+    }
+
+    // ==========================================
+    // Contact Methods
+    // ==========================================
+
+    private formatContact(raw: any): WAContact {
+        const id: string = raw.id || '';
+        return {
+            id,
+            number: raw.number || id.split('@')[0],
+            pushname: raw.pushname || undefined,
+            name: raw.name || undefined,
+            isMyContact: !!raw.isMyContact,
+            isBusiness: !!raw.isBusiness,
+            isBlocked: !!raw.isBlocked,
+            isGroup: !!raw.isGroup || id.endsWith('@g.us'),
+            isUser: !!raw.isUser,
+            profilePicUrl: raw.profilePicUrl || undefined,
+        };
+    }
+
+    async getContacts(instanceId: string): Promise<WAContact[]> {
+        const contacts = await this.evaluate(instanceId, async () => {
+            const list = await window.WPP.contact.list();
+            return list.map((c: any) => window.__waSerializeContact(c));
+        }, undefined);
+
+        return contacts.filter(Boolean).map((c: any) => this.formatContact(c));
+    }
+
+    async getContactById(instanceId: string, contactId: string): Promise<WAContact | null> {
+        const contact = await this.evaluate(instanceId, async (contactId) => {
+            const model = await window.WPP.contact.get(contactId);
+            if (!model) return null;
+
+            const serialized = window.__waSerializeContact(model);
+            try {
+                serialized.profilePicUrl = await window.WPP.contact.getProfilePictureUrl(contactId, true) || serialized.profilePicUrl;
+            } catch (e) { /* privacy settings may hide the picture */ }
+            return serialized;
+        }, toWid(contactId));
+
+        return contact ? this.formatContact(contact) : null;
+    }
+
+    async isRegisteredUser(instanceId: string, number: string): Promise<boolean> {
+        return await this.evaluate(instanceId, async (wid) => {
+            const result = await window.WPP.contact.queryExists(wid);
+            return !!result;
+        }, toWid(number));
+    }
+
+    async blockContact(instanceId: string, contactId: string) {
+        return await this.evaluate(instanceId, async (wid) => {
+            const result = await window.WPP.blocklist.blockContact(wid);
+            return { id: wid, isBlocked: !!result?.isBlocked };
+        }, toWid(contactId));
+    }
+
+    async unblockContact(instanceId: string, contactId: string) {
+        return await this.evaluate(instanceId, async (wid) => {
+            const result = await window.WPP.blocklist.unblockContact(wid);
+            return { id: wid, isBlocked: !!result?.isBlocked };
+        }, toWid(contactId));
+    }
+
+    async getBlockedContacts(instanceId: string): Promise<WAContact[]> {
+        const contacts = await this.evaluate(instanceId, async () => {
+            const wids = window.WPP.blocklist.all();
+            return await Promise.all(wids.map(async (wid: any) => {
+                const model = await window.WPP.contact.get(wid);
+                return model
+                    ? window.__waSerializeContact(model)
+                    : { id: wid._serialized || String(wid), number: wid.user, isBlocked: true };
+            }));
+        }, undefined);
+
+        return contacts.map((c: any) => this.formatContact({ ...c, isBlocked: true }));
+    }
 
-        // Wait for WPP to be ready and use correct API function name
-        return await instance.page.evaluate(async ({ chatId, content }) => {
-            // Wait for WPP to be fully loaded
-            if (typeof window.WPP === 'undefined') {
-                throw new Error('WPP not loaded');
+    async getProfilePicUrl(instanceId: string, contactId: string): Promise<string | null> {
+        return await this.evaluate(instanceId, async (wid) => {
+            return (await window.WPP.contact.getProfilePictureUrl(wid, true)) || null;
+        }, toWid(contactId));
+    }
+
+    // ==========================================
+    // Chat Methods
+    // ==========================================
+
+    private formatChat(raw: any): WAChat {
+        const id: string = raw.id || '';
+        return {
+            id,
+            name: raw.name || undefined,
+            isGroup: !!raw.isGroup || id.endsWith('@g.us'),
+            unreadCount: Number(raw.unreadCount) || 0,
+            timestamp: raw.timestamp || undefined,
+            archived: !!raw.archived,
+            pinned: !!raw.pinned,
+            isMuted: !!raw.isMuted,
+            muteExpiration: raw.muteExpiration || undefined,
+            isReadOnly: !!raw.isReadOnly,
+        };
+    }
+
+    async getChats(instanceId: string): Promise<WAChat[]> {
+        const chats = await this.evaluate(instanceId, async () => {
+            const list = await window.WPP.chat.list();
+            return list.map((chat: any) => window.__waSerializeChat(chat));
+        }, undefined);
+
+        return chats.filter(Boolean).map((chat: any) => this.formatChat(chat));
+    }
+
+    async getChatById(instanceId: string, chatId: string): Promise<WAChat | null> {
+        const chat = await this.evaluate(instanceId, (wid) => {
+            return window.__waSerializeChat(window.WPP.chat.get(wid));
+        }, toWid(chatId));
+
+        return chat ? this.formatChat(chat) : null;
+    }
+
+    async getMessages(instanceId: string, chatId: string, limit = 50): Promise<WAMessage[]> {
+        const messages = await this.evaluate(instanceId, async ({ wid, limit }) => {
+            const list = await window.WPP.chat.getMessages(wid, { count: limit });
+            return list.map((msg: any) => window.__waSerializeMsg(msg));
+        }, { wid: toWid(chatId), limit });
+
+        return messages.filter((m: any) => m?.id).map((m: any) => this.formatMessage(m));
+    }
+
+    // Run a chat operation in the page and return the resulting chat state
+    private async runChatAction(instanceId: string, chatId: string, action: ChatAction, options: any = {}): Promise<WAChat> {
+        const chat = await this.evaluate(instanceId, async ({ wid, action, options }) => {
+            const chat = window.WPP.chat;
+
+            switch (action) {
+                case 'archive': await chat.archive(wid); break;
+                case 'unarchive': await chat.unarchive(wid); break;
+                case 'pin': await chat.pin(wid); break;
+                case 'unpin': await chat.unpin(wid); break;
+                case 'mute': await chat.mute(wid, options.time); break;
+                case 'unmute': await chat.unmute(wid); break;
+                case 'markRead': await chat.markIsRead(wid); break;
+                case 'markUnread': await chat.markIsUnread(wid); break;
+                case 'clear': await chat.clear(wid, options.keepStarred); break;
             }
 
-            // Use sendTextMessage (not sendText) - correct API for wa-js@3
-            // @ts-ignore
-            return await window.WPP.chat.sendTextMessage(chatId, content);
-        }, { chatId, content });
+            return window.__waSerializeChat(chat.get(wid));
+        }, { wid: toWid(chatId), action, options });
+
+        if (!chat) throw new Error('Chat not found');
+        return this.formatChat(chat);
+    }
+
+    async archiveChat(instanceId: string, chatId: string) { return this.runChatAction(instanceId, chatId, 'archive'); }
+    async unarchiveChat(instanceId: string, chatId: string) { return this.runChatAction(instanceId, chatId, 'unarchive'); }
+    async pinChat(instanceId: string, chatId: string) { return this.runChatAction(instanceId, chatId, 'pin'); }
+    async unpinChat(instanceId: string, chatId: string) { return this.runChatAction(instanceId, chatId, 'unpin'); }
+    async unmuteChat(instanceId: string, chatId: string) { return this.runChatAction(instanceId, chatId, 'unmute'); }
+    async markChatAsRead(instanceId: string, chatId: string) { return this.runChatAction(instanceId, chatId, 'markRead'); }
+    async markChatUnread(instanceId: string, chatId: string) { return this.runChatAction(instanceId, chatId, 'markUnread'); }
+
+    async muteChat(instanceId: string, chatId: string, duration: MuteDuration = '8h') {
+        // WhatsApp uses an expiration of -1 for "always muted"
+        const time = duration === 'forever'
+            ? { expiration: -1 }
+            : { duration: duration === '1w' ? 7 * 24 * 60 * 60 : 8 * 60 * 60 };
+
+        return this.runChatAction(instanceId, chatId, 'mute', { time });
+    }
+
+    async clearChat(instanceId: string, chatId: string, keepStarred = true) {
+        return this.runChatAction(instanceId, chatId, 'clear', { keepStarred });
+    }
+
+    async deleteChat(instanceId: string, chatId: string) {
+        const wid = toWid(chatId);
+        await this.evaluate(instanceId, async (wid) => {
+            await window.WPP.chat.delete(wid);
+        }, wid);
+
+        return { id: wid, deleted: true };
+    }
+
+    // ==========================================
+    // Group Methods
+    // ==========================================
+
+    private toGroupWid(id: string): string {
+        return id.includes('@') ? id : `${id}@g.us`;
+    }
+
+    // Map WhatsApp add-participant response codes to a participant status
+    private formatParticipantResult(raw: any): ParticipantResult {
+        const codes: Record<number, ParticipantStatus> = {
+            200: 'added',
+            403: 'invite_required',
+            409: 'already_member',
+            421: 'pending_approval',
+        };
+        const code = raw.code !== undefined ? Number(raw.code) : undefined;
+
+        return {
+            id: raw.id,
+            status: raw.status || (code !== undefined && codes[code]) || 'failed',
+            code,
+            message: raw.message || undefined,
+            inviteCode: raw.inviteCode || undefined,
+            inviteCodeExpiration: raw.inviteCodeExpiration || undefined,
+        };
+    }
+
+    async createGroup(instanceId: string, name: string, participants: string[]) {
+        const result = await this.evaluate(instanceId, async ({ name, participants }) => {
+            const results: any[] = [];
+            const existing: string[] = [];
+
+            for (const id of participants) {
+                const exists = await window.WPP.contact.queryExists(id);
+                if (exists) existing.push(exists.wid._serialized || String(exists.wid));
+                else results.push({ id, status: 'not_on_whatsapp' });
+            }
+
+            const created = await window.WPP.group.create(name, existing);
+            for (const [id, r] of Object.entries<any>(created.participants || {})) {
+                results.push({
+                    id,
+                    code: r.code,
+                    inviteCode: r.invite_code,
+                    inviteCodeExpiration: r.invite_code_exp,
+                });
+            }
+
+            return { gid: created.gid._serialized || String(created.gid), participants: results };
+        }, { name, participants: participants.map(p => toWid(p)) });
+
+        return {
+            gid: result.gid,
+            participants: result.participants.map((p: any) => this.formatParticipantResult(p)),
+        };
+    }
+
+    async getGroupInfo(instanceId: string, groupId: string): Promise<WAGroupInfo> {
+        return await this.evaluate(instanceId, async (gid) => {
+            const wid = (w: any) => (w ? w._serialized || String(w) : undefined);
+            const chat = await window.WPP.group.ensureGroup(gid);
+            const meta = chat.groupMetadata;
+
+            return {
+                id: wid(chat.id),
+                name: meta?.subject || chat.formattedTitle,
+                description: meta?.desc,
+                owner: wid(meta?.owner),
+                createdAt: meta?.creation,
+                announce: !!meta?.announce,
+                restrict: !!meta?.restrict,
+                participants: (meta?.participants?.getModelsArray() || []).map((p: any) => ({
+                    id: wid(p.id),
+                    isAdmin: !!p.isAdmin,
+                    isSuperAdmin: !!p.isSuperAdmin,
+                })),
+            };
+        }, this.toGroupWid(groupId));
+    }
+
+    async addParticipants(instanceId: string, groupId: string, participants: string[]): Promise<ParticipantResult[]> {
+        const results = await this.evaluate(instanceId, async ({ gid, participants }) => {
+            const results: any[] = [];
+            const existing: string[] = [];
+
+            for (const id of participants) {
+                const exists = await window.WPP.contact.queryExists(id);
+                if (exists) existing.push(exists.wid._serialized || String(exists.wid));
+                else results.push({ id, status: 'not_on_whatsapp' });
+            }
+
+            if (existing.length > 0) {
+                const added = await window.WPP.group.addParticipants(gid, existing);
+                for (const [id, r] of Object.entries<any>(added || {})) {
+                    results.push({
+                        id,
+                        code: r.code,
+                        message: r.message,
+                        inviteCode: r.invite_code,
+                        inviteCodeExpiration: r.invite_code_exp,
+                    });
+                }
+            }
+
+            return results;
+        }, { gid: this.toGroupWid(groupId), participants: participants.map(p => toWid(p)) });
+
+        return results.map((r: any) => this.formatParticipantResult(r));
+    }
+
+    // Remove/promote/demote one participant at a time so a failure only affects that participant
+    private async runParticipantAction(
+        instanceId: string,
+        groupId: string,
+        participants: string[],
+        action: 'remove' | 'promote' | 'demote'
+    ): Promise<ParticipantResult[]> {
+        const results = await this.evaluate(instanceId, async ({ gid, participants, action }) => {
+            const group = window.WPP.group;
+            const done = { remove: 'removed', promote: 'promoted', demote: 'demoted' }[action];
+            const results: any[] = [];
+
+            for (const id of participants) {
+                try {
+                    if (action === 'remove') await group.removeParticipants(gid, id);
+                    else if (action === 'promote') await group.promoteParticipants(gid, id);
+                    else await group.demoteParticipants(gid, id);
+                    results.push({ id, status: done });
+                } catch (e: any) {
+                    results.push({
+                        id,
+                        status: e?.code === 'group_participant_not_found' ? 'not_a_member' : 'failed',
+                        message: e?.message,
+                    });
+                }
+            }
+
+            return results;
+        }, { gid: this.toGroupWid(groupId), participants: participants.map(p => toWid(p)), action });
+
+        return results.map((r: any) => this.formatParticipantResult(r));
+    }
+
+    async removeParticipants(instanceId: string, groupId: string, participants: string[]) {
+        return this.runParticipantAction(instanceId, groupId, participants, 'remove');
+    }
+
+    async promoteParticipants(instanceId: string, groupId: string, participants: string[]) {
+        return this.runParticipantAction(instanceId, groupId, participants, 'promote');
+    }
+
+    async demoteParticipants(instanceId: string, groupId: string, participants: string[]) {
+        return this.runParticipantAction(instanceId, groupId, participants, 'demote');
+    }
+
+    async setGroupSubject(instanceId: string, groupId: string, subject: string) {
+        await this.evaluate(instanceId, async ({ gid, subject }) => {
+            await window.WPP.group.setSubject(gid, subject);
+        }, { gid: this.toGroupWid(groupId), subject });
+
+        return this.getGroupInfo(instanceId, groupId);
+    }
+
+    async setGroupDescription(instanceId: string, groupId: string, description: string) {
+        await this.evaluate(instanceId, async ({ gid, description }) => {
+            await window.WPP.group.setDescription(gid, description);
+        }, { gid: this.toGroupWid(groupId), description });
+
+        return this.getGroupInfo(instanceId, groupId);
+    }
+
+    async leaveGroup(instanceId: string, groupId: string) {
+        const gid = this.toGroupWid(groupId);
+        await this.evaluate(instanceId, async (gid) => {
+            await window.WPP.group.leave(gid);
+        }, gid);
+
+        return { id: gid, left: true };
+    }
+
+    async getInviteCode(instanceId: string, groupId: string): Promise<string> {
+        return await this.evaluate(instanceId, async (gid) => {
+            return await window.WPP.group.getInviteCode(gid);
+        }, this.toGroupWid(groupId));
+    }
+
+    async revokeInviteCode(instanceId: string, groupId: string): Promise<string> {
+        return await this.evaluate(instanceId, async (gid) => {
+            return await window.WPP.group.revokeInviteCode(gid);
+        }, this.toGroupWid(groupId));
+    }
+
+    async joinGroupByInviteCode(instanceId: string, inviteCode: string): Promise<string> {
+        return await this.evaluate(instanceId, async (code) => {
+            const result = await window.WPP.group.join(code);
+            return result.id;
+        }, inviteCode);
     }
 
     // ==========================================
     // Stubs for Compatibility (To be implemented)
     // ==========================================
 
-    async getContacts(_instanceId: string) { return []; }
-    async getContactById(_instanceId: string, _contactId: string) { return null; }
-    async isRegisteredUser(_instanceId: string, _number: string) { return true; }
-    async blockContact(_instanceId: string, _contactId: string) { }
-    async unblockContact(_instanceId: string, _contactId: string) { }
-    async getBlockedContacts(_instanceId: string) { return []; }
-    async getProfilePicUrl(_instanceId: string, _contactId: string) { return ''; }
-
-    async getChats(_instanceId: string) { return []; }
-    async getChatById(_instanceId: string, _chatId: string) { return null; }
-    async getMessages(_instanceId: string, _chatId: string, _limit = 50) { return []; }
-    async clearChat(_instanceId: string, _chatId: string) { }
-    async deleteChat(_instanceId: string, _chatId: string) { }
-    async archiveChat(_instanceId: string, _chatId: string) { }
-    async unarchiveChat(_instanceId: string, _chatId: string) { }
-    async pinChat(_instanceId: string, _chatId: string) { }
-    async unpinChat(_instanceId: string, _chatId: string) { }
-    async muteChat(_instanceId: string, _chatId: string, _duration?: any) { }
-    async unmuteChat(_instanceId: string, _chatId: string) { }
-    async markChatUnread(_instanceId: string, _chatId: string) { }
-    async resolveChatId(_instance: any, number: string) { return number.includes('@') ? number : number + '@c.us'; }
-
-    async createGroup(_instanceId: string, _name: string, _participants: string[]) { return {}; }
-    async getGroupInfo(_instanceId: string, _groupId: string) { return {}; }
-    async addParticipants(_instanceId: string, _groupId: string, _participants: string[]) { }
-    async removeParticipants(_instanceId: string, _groupId: string, _participants: string[]) { }
-    async promoteParticipants(_instanceId: string, _groupId: string, _participants: string[]) { }
-    async demoteParticipants(_instanceId: string, _groupId: string, _participants: string[]) { }
-    async setGroupSubject(_instanceId: string, _groupId: string, _subject: string) { }
-    async setGroupDescription(_instanceId: string, _groupId: string, _description: string) { }
-    async leaveGroup(_instanceId: string, _groupId: string) { }
-    async getInviteCode(_instanceId: string, _groupId: string) { return ''; }
-    async revokeInviteCode(_instanceId: string, _groupId: string) { return ''; }
-    async joinGroupByInviteCode(_instanceId: string, _inviteCode: string) { return ''; }
-
-    async sendMedia(_instanceId: string, _to: string, _mediaUrl: string, _options?: any) { }
-    async sendMediaBase64(_instanceId: string, _to: string, _base64: string, _mimetype: string, _options?: any) { }
-    async sendLocation(_instanceId: string, _to: string, _latitude: number, _longitude: number, _description?: string) { }
-    async sendContact(_instanceId: string, _to: string, _contactId: string) { }
-    async sendPoll(_instanceId: string, _to: string, _title: string, _options: string[], _pollOptions?: any) { }
-    async sendPresence(_instanceId: string, _to: string, _presence: any) { }
-    async editMessage(_instanceId: string, _messageId: string, _newText: string) { }
-    async reactToMessage(_instanceId: string, _messageId: string, _reaction: string) { }
-    async deleteMessage(_instanceId: string, _messageId: string, _forEveryone: boolean = true) { }
+    async resolveChatId(_instance: any, number: string) { return toWid(number); }
+
     async downloadMedia(_instanceId: string, _messageId: string, _options?: any) { return null; }
 
     async sendText(instanceId: string, to: string, content: string) {
@@ -583,7 +1964,6 @@ export class WhatsAppManager extends EventEmitter {
 
     // Aliases for compatibility
     async getChatMessages(instanceId: string, chatId: string, limit = 50) { return this.getMessages(instanceId, chatId, limit); }
-    async markChatAsRead(instanceId: string, chatId: string) { return this.markChatUnread(instanceId, chatId); }
     async markChatAsUnread(instanceId: string, chatId: string) { return this.markChatUnread(instanceId, chatId); }
 
     // Profile
@@ -597,27 +1977,116 @@ export class WhatsAppManager extends EventEmitter {
     async addLabelToChat(_instanceId: string, _chatId: string, _labelId: string) { }
     async removeLabelFromChat(_instanceId: string, _chatId: string, _labelId: string) { }
 
-    async updateInstanceSettings(_id: string, _settings: any) {
-        // ... logic to update settings
+    async updateSettings(instanceId: string, settings: Partial<InstanceSettings>) { return this.updateInstanceSettings(instanceId, settings); }
+    async getSettings(instanceId: string) { return this.getInstanceSettings(instanceId); }
+
+    // ==========================================
+    // Settings Management
+    // ==========================================
+
+    getInstanceSettings(instanceId: string): InstanceSettings {
+        return this.instanceSettings.get(instanceId) || DEFAULT_INSTANCE_SETTINGS;
+    }
+
+    updateInstanceSettings(instanceId: string, settings: Partial<InstanceSettings>) {
+        const current = this.getInstanceSettings(instanceId);
+        const next: InstanceSettings = {
+            alwaysOnline: settings.alwaysOnline ?? current.alwaysOnline,
+            ignoreGroups: settings.ignoreGroups ?? current.ignoreGroups,
+            rejectCalls: settings.rejectCalls ?? current.rejectCalls,
+            readMessages: settings.readMessages ?? current.readMessages,
+            syncFullHistory: settings.syncFullHistory ?? current.syncFullHistory,
+            autoTakeover: settings.autoTakeover ?? current.autoTakeover,
+            blockingPolicy: settings.blockingPolicy ?? current.blockingPolicy,
+        };
+
+        this.instanceSettings.set(instanceId, next);
+        logger.info({ instanceId, settings: next }, 'Instance settings updated');
+
+        this.applyAlwaysOnline(instanceId);
+    }
+
+    async loadInstanceSettings(instanceId: string) {
+        try {
+            const settings = await loadStoredSettings(instanceId);
+            if (settings) this.updateInstanceSettings(instanceId, settings);
+        } catch (error) {
+            logger.error({ instanceId, error }, 'Failed to load instance settings');
+        }
+    }
+
+    // Start or stop the periodic available presence based on current settings
+    private applyAlwaysOnline(instanceId: string) {
+        this.stopAlwaysOnline(instanceId);
+
+        const instance = this.instances.get(instanceId);
+        if (!this.getInstanceSettings(instanceId).alwaysOnline || instance?.status !== 'connected') return;
+
+        const markAvailable = () => {
+            this.evaluate(instanceId, async () => {
+                await window.WPP.conn.markAvailable(true);
+            }, undefined).catch((err) => {
+                logger.warn({ instanceId, err }, 'Failed to set presence available');
+            });
+        };
+
+        markAvailable();
+        this.alwaysOnlineIntervals.set(instanceId, setInterval(markAvailable, ALWAYS_ONLINE_INTERVAL));
+        logger.info({ instanceId }, 'Always online enabled');
+    }
+
+    private stopAlwaysOnline(instanceId: string) {
+        const interval = this.alwaysOnlineIntervals.get(instanceId);
+        if (interval) {
+            clearInterval(interval);
+            this.alwaysOnlineIntervals.delete(instanceId);
+        }
+    }
+
+    private async rejectCall(instanceId: string, callId: string) {
+        await this.evaluate(instanceId, async (callId) => {
+            await window.WPP.call.reject(callId);
+        }, callId);
+        logger.info({ instanceId, callId }, 'Call rejected (rejectCalls enabled)');
     }
-    async updateSettings(instanceId: string, settings: any) { return this.updateInstanceSettings(instanceId, settings); }
-    async getSettings(instanceId: string) { return this.instanceSettings.get(instanceId) || {}; }
 
     formatNumber(number: string): string {
         return number.replace(/\D/g, '');
     }
 
-    async disconnect(instanceId: string) { await this.logout(instanceId); }
+    // Close the browser context, keeping the session for reconnection
+    async disconnect(instanceId: string) {
+        this.cancelReconnect(instanceId);
 
-    private instanceSettings: Map<string, any> = new Map();
-    public alwaysOnlineIntervals: Map<string, NodeJS.Timeout> = new Map();
+        const instance = this.instances.get(instanceId);
+        if (instance) {
+            instance.closing = true;
+            // Flush the latest session before the context goes away
+            if (instance.status === 'connected') await instance.saveSession();
+            this.setState(instance, 'disconnected', 'disconnect');
+            await instance.context.close().catch(() => { });
+            this.instances.delete(instanceId);
+        }
+    }
 
+    // Unlink the device from WhatsApp and remove the saved session
     async logout(instanceId: string) {
+        this.cancelReconnect(instanceId);
+
         const instance = this.instances.get(instanceId);
         if (instance) {
+            instance.closing = true;
+            instance.discardSession = true;
+
+            if (instance.status === 'connected' || instance.status === 'syncing') {
+                await instance.page.evaluate(() => window.WPP?.conn?.logout()).catch(() => { });
+            }
+            this.setState(instance, 'disconnected', 'logout');
             await instance.context.close().catch(() => { });
             this.instances.delete(instanceId);
         }
+
+        await this.removeSession(instanceId);
     }
 
     async deleteInstance(instanceId: string) {
@@ -630,4 +2099,4 @@ export class WhatsAppManager extends EventEmitter {
     getAllInstances() { return Array.from(this.instances.keys()); }
 }
 
-export const waManager = new WhatsAppManager();
+export const waManager: WAEngine = env.waEngine === 'fake' ? new FakeEngine() : new WhatsAppManager();
@@ -0,0 +1,35 @@
+import { Context, Next } from 'hono';
+import { HTTPException } from 'hono/http-exception';
+import { env } from '../config/env.js';
+import { cluster, CLUSTER_TOKEN_HEADER } from '../lib/cluster.js';
+import { logger } from '../lib/logger.js';
+
+/**
+ * Middleware that sends instance requests to the node owning the instance.
+ * Reads the instance from the `:id` param or from instanceTokenMiddleware.
+ * Requests already forwarded by another node are always served locally.
+ */
+export async function forwardToOwner(c: Context, next: Next) {
+    if (!cluster.enabled) return next();
+
+    const clusterToken = c.req.header(CLUSTER_TOKEN_HEADER);
+    if (clusterToken !== undefined) {
+        if (clusterToken !== env.clusterSecret) {
+            throw new HTTPException(401, { message: 'Invalid cluster token' });
+        }
+        return next();
+    }
+
+    const instanceId = c.req.param('id') || c.get('instanceId');
+    if (!instanceId) return next();
+
+    const owner = await cluster.getOwner(instanceId);
+    if (!owner || owner.nodeId === cluster.nodeId) return next();
+
+    try {
+        return await cluster.forward(c.req.raw, owner);
+    } catch (error) {
+        logger.error({ instanceId, owner, error }, 'Failed to forward request to owner node');
+        throw new HTTPException(503, { message: `Owner node ${owner.nodeId} unreachable` });
+    }
+}
@@ -2,6 +2,26 @@ import { Context } from 'hono';
 import { HTTPException } from 'hono/http-exception';
 import { ZodError } from 'zod';
 import { logger } from '../lib/logger.js';
+import { CommandError } from '../lib/command-queue.js';
+import { NotFoundError } from '../lib/engine.js';
+
+const COMMAND_ERROR_STATUS = {
+    BUSY: 503,
+    TIMEOUT: 504,
+    CANCELLED: 503,
+} as const;
+
+/**
+ * Wrap an error thrown by a WhatsApp engine call.
+ * Queue errors keep their meaning (503 BUSY, 504 TIMEOUT), a missing target is a 404; anything else is a 500.
+ */
+export function engineError(error: unknown, fallback: string) {
+    const message = error instanceof Error ? error.message : fallback;
+    const status = error instanceof CommandError ? COMMAND_ERROR_STATUS[error.code]
+        : error instanceof NotFoundError ? 404
+            : 500;
+    return new HTTPException(status, { message, cause: error });
+}
 
 export function errorHandler(err: Error, c: Context) {
     logger.error({ err, path: c.req.path, method: c.req.method }, 'Request error');
@@ -23,10 +43,15 @@ export function errorHandler(err: Error, c: Context) {
 
     // HTTP exceptions from Hono
     if (err instanceof HTTPException) {
+        if (err.cause instanceof CommandError && err.cause.code === 'BUSY') {
+            c.header('Retry-After', '1');
+        }
+
         return c.json(
             {
                 success: false,
                 error: err.message,
+                ...(err.cause instanceof CommandError && { code: err.cause.code }),
             },
             err.status
         );
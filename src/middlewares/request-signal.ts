@@ -0,0 +1,10 @@
+import { Context, Next } from 'hono';
+import { withRequestSignal } from '../lib/command-queue.js';
+
+/**
+ * Middleware that cancels the engine commands of a request still waiting in the
+ * instance queue when the client disconnects, so they don't hold queue slots.
+ */
+export async function cancelOnDisconnect(c: Context, next: Next) {
+    await withRequestSignal(c.req.raw.signal, next);
+}
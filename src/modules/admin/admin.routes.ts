@@ -2,9 +2,11 @@ import { Hono } from 'hono';
 import { z } from 'zod';
 import { prisma } from '../../lib/prisma.js';
 import { waManager } from '../../lib/whatsapp.js';
+import { forwardToOwner } from '../../middlewares/cluster.js';
 import { adminMiddleware, authMiddleware } from '../../middlewares/auth.js';
 import { HTTPException } from 'hono/http-exception';
 import { env } from '../../config/env.js';
+import { engineError } from '../../middlewares/error.js';
 
 const admin = new Hono();
 
@@ -229,7 +231,7 @@ admin.post('/instance/:id/update', async (c) => {
  * DELETE /admin/instance/:id
  * Delete an instance
  */
-admin.delete('/instance/:id', async (c) => {
+admin.delete('/instance/:id', forwardToOwner, async (c) => {
     const { id } = c.req.param();
 
     // Disconnect and cleanup WhatsApp session
@@ -333,6 +335,42 @@ admin.get('/stats', async (c) => {
     ]);
 
     const activeInstances = waManager.getAllInstances().length;
+    const browsers = waManager.getPoolStats();
+
+    // Command queue depth across the instances running on this node
+    const queues = waManager.getAllInstances().flatMap((id) => {
+        const stats = waManager.getQueueStats(id);
+        return stats ? [{ id, ...stats }] : [];
+    });
+    const queue = {
+        pending: queues.reduce((sum, q) => sum + q.pending, 0),
+        running: queues.reduce((sum, q) => sum + q.running, 0),
+        rejected: queues.reduce((sum, q) => sum + q.rejected, 0),
+        timedOut: queues.reduce((sum, q) => sum + q.timedOut, 0),
+        busiest: queues.sort((a, b) => b.pending - a.pending).slice(0, 5),
+    };
+
+    // Per-instance resource usage, heaviest first
+    const resources = waManager.getAllInstances()
+        .flatMap((id) => {
+            const stats = waManager.getResourceStats(id);
+            return stats ? [{ id, ...stats }] : [];
+        })
+        .sort((a, b) => (b.heapUsedMb ?? 0) - (a.heapUsedMb ?? 0) || b.domNodes - a.domNodes);
+
+    // Requests aborted by blocking policies, to weigh memory savings against broken features
+    const blockedRequests = waManager.getAllInstances().reduce(
+        (totals, id) => {
+            const stats = waManager.getBlockedRequestStats(id);
+            if (!stats) return totals;
+            totals.total += stats.total;
+            for (const [type, count] of Object.entries(stats.byType)) {
+                totals.byType[type] = (totals.byType[type] ?? 0) + count;
+            }
+            return totals;
+        },
+        { total: 0, byType: {} as Record<string, number> },
+    );
 
     return c.json({
         success: true,
@@ -344,10 +382,42 @@ admin.get('/stats', async (c) => {
                 active: activeInstances,
                 limit: env.waMaxInstances,
             },
+            browsers,
+            queue,
+            resources,
+            blockedRequests,
             campaigns: totalCampaigns,
             messages: totalMessages,
         },
     });
 });
 
+// ================================
+// Browser Pool
+// ================================
+
+/**
+ * POST /admin/browsers/:index/recycle
+ * Drain a browser process, move its instances and relaunch it
+ */
+admin.post('/browsers/:index/recycle', async (c) => {
+    const index = parseInt(c.req.param('index'));
+
+    if (Number.isNaN(index) || !waManager.getPoolStats().some((shard) => shard.index === index)) {
+        throw new HTTPException(404, { message: 'Browser not found' });
+    }
+
+    try {
+        const result = await waManager.recycleBrowser(index);
+
+        return c.json({
+            success: true,
+            message: `Browser ${index} recycled, ${result.instances.length} instances moved`,
+            data: result,
+        });
+    } catch (error) {
+        throw engineError(error, 'Failed to recycle browser');
+    }
+});
+
 export { admin as adminRoutes };
@@ -2,6 +2,8 @@ import { Hono } from 'hono';
 import { z } from 'zod';
 import { prisma } from '../../lib/prisma.js';
 import { waManager } from '../../lib/whatsapp.js';
+import { cluster } from '../../lib/cluster.js';
+import { applyEarlyAck } from '../../lib/engine.js';
 import { redis } from '../../lib/redis.js';
 import { authMiddleware } from '../../middlewares/auth.js';
 import { HTTPException } from 'hono/http-exception';
@@ -58,6 +60,37 @@ const controlCampaignSchema = z.object({
     action: z.enum(['pause', 'resume', 'cancel']),
 });
 
+// ================================
+// Helpers
+// ================================
+
+/**
+ * Count delivered/read messages per campaign (read messages count as delivered too)
+ */
+async function getDeliveryStats(campaignIds: string[]) {
+    const stats = new Map<string, { deliveredMessages: number; readMessages: number }>();
+    if (campaignIds.length === 0) return stats;
+
+    const groups = await prisma.message.groupBy({
+        by: ['campaignId', 'status'],
+        where: {
+            campaignId: { in: campaignIds },
+            status: { in: ['DELIVERED', 'READ'] },
+        },
+        _count: { _all: true },
+    });
+
+    for (const group of groups) {
+        if (!group.campaignId) continue;
+        const current = stats.get(group.campaignId) || { deliveredMessages: 0, readMessages: 0 };
+        current.deliveredMessages += group._count._all;
+        if (group.status === 'READ') current.readMessages += group._count._all;
+        stats.set(group.campaignId, current);
+    }
+
+    return stats;
+}
+
 // ================================
 // Routes - User Auth
 // ================================
@@ -89,6 +122,8 @@ campaigns.get('/', authMiddleware, async (c) => {
         orderBy: { createdAt: 'desc' },
     });
 
+    const deliveryStats = await getDeliveryStats(campaignsList.map(campaign => campaign.id));
+
     return c.json({
         success: true,
         data: campaignsList.map(campaign => ({
@@ -99,6 +134,8 @@ campaigns.get('/', authMiddleware, async (c) => {
             totalMessages: campaign.totalMessages,
             sentMessages: campaign.sentMessages,
             failedMessages: campaign.failedMessages,
+            deliveredMessages: deliveryStats.get(campaign.id)?.deliveredMessages ?? 0,
+            readMessages: deliveryStats.get(campaign.id)?.readMessages ?? 0,
             progress: campaign.totalMessages > 0
                 ? Math.round((campaign.sentMessages / campaign.totalMessages) * 100)
                 : 0,
@@ -353,6 +390,8 @@ campaigns.get('/:id', authMiddleware, async (c) => {
         throw new HTTPException(404, { message: 'Campaign not found' });
     }
 
+    const deliveryStats = (await getDeliveryStats([campaign.id])).get(campaign.id);
+
     return c.json({
         success: true,
         data: {
@@ -363,6 +402,8 @@ campaigns.get('/:id', authMiddleware, async (c) => {
             totalMessages: campaign.totalMessages,
             sentMessages: campaign.sentMessages,
             failedMessages: campaign.failedMessages,
+            deliveredMessages: deliveryStats?.deliveredMessages ?? 0,
+            readMessages: deliveryStats?.readMessages ?? 0,
             progress: campaign.totalMessages > 0
                 ? Math.round((campaign.sentMessages / campaign.totalMessages) * 100)
                 : 0,
@@ -507,6 +548,12 @@ export function startCampaignWorker() {
                 return;
             }
 
+            // The instance runs on another node: let a worker there send the batch
+            if (!await cluster.isLocal(campaign.instanceId)) {
+                await campaignQueue.add('process-campaign', { campaignId }, { delay: 5000 });
+                return;
+            }
+
             // Check if instance is still connected
             const instanceStatus = waManager.getStatus(campaign.instanceId);
             if (instanceStatus !== 'connected') {
@@ -531,29 +578,37 @@ export function startCampaignWorker() {
 
                 try {
                     const content = message.content as any;
+                    let result: { id?: string } | void = undefined;
 
                     if (content.type === 'text') {
-                        await waManager.sendText(campaign.instanceId, message.to, content.text);
+                        result = await waManager.sendText(campaign.instanceId, message.to, content.text);
                     } else if (content.type === 'media') {
-                        await waManager.sendMedia(campaign.instanceId, message.to, content.mediaUrl, {
+                        result = await waManager.sendMedia(campaign.instanceId, message.to, content.mediaUrl, {
                             caption: content.caption,
                         });
                     }
 
-                    await prisma.message.update({
-                        where: { id: message.id },
+                    // Keep the WhatsApp id so ack events can advance the status
+                    const { count } = await prisma.message.updateMany({
+                        where: { id: message.id, status: 'PENDING' },
                         data: {
                             status: 'SENT',
+                            waMessageId: result?.id ?? null,
                             sentAt: new Date(),
                         },
                     });
 
-                    await prisma.campaign.update({
-                        where: { id: campaignId },
-                        data: {
-                            sentMessages: { increment: 1 },
-                        },
-                    });
+                    // Already recorded by a retried job (or cancelled): don't count it twice
+                    if (count === 1) {
+                        if (result?.id) await applyEarlyAck(result.id);
+
+                        await prisma.campaign.update({
+                            where: { id: campaignId },
+                            data: {
+                                sentMessages: { increment: 1 },
+                            },
+                        });
+                    }
                 } catch (error) {
                     logger.error({ messageId: message.id, error }, 'Failed to send message');
 
@@ -2,12 +2,14 @@ import { Hono } from 'hono';
 import { z } from 'zod';
 import { waManager } from '../../lib/whatsapp.js';
 import { instanceTokenMiddleware } from '../../middlewares/auth.js';
-import { HTTPException } from 'hono/http-exception';
+import { forwardToOwner } from '../../middlewares/cluster.js';
+import { engineError } from '../../middlewares/error.js';
 
 const chats = new Hono();
 
 // All chat routes use instance token authentication
 chats.use('*', instanceTokenMiddleware);
+chats.use('*', forwardToOwner);
 
 // ================================
 // Schemas
@@ -22,6 +24,11 @@ const muteChatSchema = z.object({
     duration: z.enum(['8h', '1w', 'forever']).default('8h'),
 });
 
+const clearChatSchema = z.object({
+    chatId: z.string().min(1),
+    keepStarred: z.boolean().default(true),
+});
+
 const searchChatsSchema = z.object({
     page: z.number().min(1).default(1),
     limit: z.number().min(1).max(100).default(50),
@@ -47,9 +54,7 @@ chats.get('/', async (c) => {
             data: chatsList,
         });
     } catch (error) {
-        throw new HTTPException(500, {
-            message: error instanceof Error ? error.message : 'Failed to get chats',
-        });
+        throw engineError(error, 'Failed to get chats');
     }
 });
 
@@ -99,9 +104,7 @@ chats.post('/search', async (c) => {
             },
         });
     } catch (error) {
-        throw new HTTPException(500, {
-            message: error instanceof Error ? error.message : 'Failed to search chats',
-        });
+        throw engineError(error, 'Failed to search chats');
     }
 });
 
@@ -122,9 +125,7 @@ chats.post('/info', async (c) => {
             data: chat,
         });
     } catch (error) {
-        throw new HTTPException(500, {
-            message: error instanceof Error ? error.message : 'Failed to get chat info',
-        });
+        throw engineError(error, 'Failed to get chat info');
     }
 });
 
@@ -138,16 +139,37 @@ chats.post('/delete', async (c) => {
     const { chatId } = chatIdSchema.parse(body);
 
     try {
-        await waManager.deleteChat(instanceId, chatId);
+        const chat = await waManager.deleteChat(instanceId, chatId);
 
         return c.json({
             success: true,
             message: 'Chat deleted successfully',
+            data: chat,
         });
     } catch (error) {
-        throw new HTTPException(500, {
-            message: error instanceof Error ? error.message : 'Failed to delete chat',
+        throw engineError(error, 'Failed to delete chat');
+    }
+});
+
+/**
+ * POST /chat/clear
+ * Clear all messages from a chat
+ */
+chats.post('/clear', async (c) => {
+    const instanceId = c.get('instanceId');
+    const body = await c.req.json();
+    const { chatId, keepStarred } = clearChatSchema.parse(body);
+
+    try {
+        const chat = await waManager.clearChat(instanceId, chatId, keepStarred);
+
+        return c.json({
+            success: true,
+            message: 'Chat cleared successfully',
+            data: chat,
         });
+    } catch (error) {
+        throw engineError(error, 'Failed to clear chat');
     }
 });
 
@@ -161,16 +183,15 @@ chats.post('/archive', async (c) => {
     const { chatId } = chatIdSchema.parse(body);
 
     try {
-        await waManager.archiveChat(instanceId, chatId);
+        const chat = await waManager.archiveChat(instanceId, chatId);
 
         return c.json({
             success: true,
             message: 'Chat archived successfully',
+            data: chat,
         });
     } catch (error) {
-        throw new HTTPException(500, {
-            message: error instanceof Error ? error.message : 'Failed to archive chat',
-        });
+        throw engineError(error, 'Failed to archive chat');
     }
 });
 
@@ -184,16 +205,15 @@ chats.post('/unarchive', async (c) => {
     const { chatId } = chatIdSchema.parse(body);
 
     try {
-        await waManager.unarchiveChat(instanceId, chatId);
+        const chat = await waManager.unarchiveChat(instanceId, chatId);
 
         return c.json({
             success: true,
             message: 'Chat unarchived successfully',
+            data: chat,
         });
     } catch (error) {
-        throw new HTTPException(500, {
-            message: error instanceof Error ? error.message : 'Failed to unarchive chat',
-        });
+        throw engineError(error, 'Failed to unarchive chat');
     }
 });
 
@@ -207,16 +227,15 @@ chats.post('/pin', async (c) => {
     const { chatId } = chatIdSchema.parse(body);
 
     try {
-        await waManager.pinChat(instanceId, chatId);
+        const chat = await waManager.pinChat(instanceId, chatId);
 
         return c.json({
             success: true,
             message: 'Chat pinned successfully',
+            data: chat,
         });
     } catch (error) {
-        throw new HTTPException(500, {
-            message: error instanceof Error ? error.message : 'Failed to pin chat',
-        });
+        throw engineError(error, 'Failed to pin chat');
     }
 });
 
@@ -230,16 +249,15 @@ chats.post('/unpin', async (c) => {
     const { chatId } = chatIdSchema.parse(body);
 
     try {
-        await waManager.unpinChat(instanceId, chatId);
+        const chat = await waManager.unpinChat(instanceId, chatId);
 
         return c.json({
             success: true,
             message: 'Chat unpinned successfully',
+            data: chat,
         });
     } catch (error) {
-        throw new HTTPException(500, {
-            message: error instanceof Error ? error.message : 'Failed to unpin chat',
-        });
+        throw engineError(error, 'Failed to unpin chat');
     }
 });
 
@@ -252,32 +270,16 @@ chats.post('/mute', async (c) => {
     const body = await c.req.json();
     const { chatId, duration } = muteChatSchema.parse(body);
 
-    const now = new Date();
-    let unmuteDate: Date;
-
-    switch (duration) {
-        case '8h':
-            unmuteDate = new Date(now.getTime() + 8 * 60 * 60 * 1000);
-            break;
-        case '1w':
-            unmuteDate = new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000);
-            break;
-        case 'forever':
-            unmuteDate = new Date(now.getTime() + 100 * 365 * 24 * 60 * 60 * 1000); // 100 years
-            break;
-    }
-
     try {
-        await waManager.muteChat(instanceId, chatId, unmuteDate);
+        const chat = await waManager.muteChat(instanceId, chatId, duration);
 
         return c.json({
             success: true,
             message: 'Chat muted successfully',
+            data: chat,
         });
     } catch (error) {
-        throw new HTTPException(500, {
-            message: error instanceof Error ? error.message : 'Failed to mute chat',
-        });
+        throw engineError(error, 'Failed to mute chat');
     }
 });
 
@@ -291,16 +293,15 @@ chats.post('/unmute', async (c) => {
     const { chatId } = chatIdSchema.parse(body);
 
     try {
-        await waManager.unmuteChat(instanceId, chatId);
+        const chat = await waManager.unmuteChat(instanceId, chatId);
 
         return c.json({
             success: true,
             message: 'Chat unmuted successfully',
+            data: chat,
         });
     } catch (error) {
-        throw new HTTPException(500, {
-            message: error instanceof Error ? error.message : 'Failed to unmute chat',
-        });
+        throw engineError(error, 'Failed to unmute chat');
     }
 });
 
@@ -314,16 +315,15 @@ chats.post('/unread', async (c) => {
     const { chatId } = chatIdSchema.parse(body);
 
     try {
-        await waManager.markChatAsUnread(instanceId, chatId);
+        const chat = await waManager.markChatAsUnread(instanceId, chatId);
 
         return c.json({
             success: true,
             message: 'Chat marked as unread',
+            data: chat,
         });
     } catch (error) {
-        throw new HTTPException(500, {
-            message: error instanceof Error ? error.message : 'Failed to mark chat as unread',
-        });
+        throw engineError(error, 'Failed to mark chat as unread');
     }
 });
 
@@ -337,16 +337,15 @@ chats.post('/read', async (c) => {
     const { chatId } = chatIdSchema.parse(body);
 
     try {
-        await waManager.markChatAsRead(instanceId, chatId);
+        const chat = await waManager.markChatAsRead(instanceId, chatId);
 
         return c.json({
             success: true,
             message: 'Chat marked as read',
+            data: chat,
         });
     } catch (error) {
-        throw new HTTPException(500, {
-            message: error instanceof Error ? error.message : 'Failed to mark chat as read',
-        });
+        throw engineError(error, 'Failed to mark chat as read');
     }
 });
 
@@ -372,9 +371,7 @@ chats.post('/messages', async (c) => {
             data: messages,
         });
     } catch (error) {
-        throw new HTTPException(500, {
-            message: error instanceof Error ? error.message : 'Failed to get messages',
-        });
+        throw engineError(error, 'Failed to get messages');
     }
 });
 
@@ -2,12 +2,14 @@ import { Hono } from 'hono';
 import { z } from 'zod';
 import { waManager } from '../../lib/whatsapp.js';
 import { instanceTokenMiddleware } from '../../middlewares/auth.js';
-import { HTTPException } from 'hono/http-exception';
+import { forwardToOwner } from '../../middlewares/cluster.js';
+import { engineError } from '../../middlewares/error.js';
 
 const contacts = new Hono();
 
 // All contact routes use instance token authentication
 contacts.use('*', instanceTokenMiddleware);
+contacts.use('*', forwardToOwner);
 
 // ================================
 // Schemas
@@ -40,9 +42,7 @@ contacts.get('/', async (c) => {
             data: contactsList,
         });
     } catch (error) {
-        throw new HTTPException(500, {
-            message: error instanceof Error ? error.message : 'Failed to get contacts',
-        });
+        throw engineError(error, 'Failed to get contacts');
     }
 });
 
@@ -89,9 +89,7 @@ contacts.post('/list', async (c) => {
             },
         });
     } catch (error) {
-        throw new HTTPException(500, {
-            message: error instanceof Error ? error.message : 'Failed to get contacts',
-        });
+        throw engineError(error, 'Failed to get contacts');
     }
 });
 
@@ -112,9 +110,7 @@ contacts.post('/details', async (c) => {
             data: contact,
         });
     } catch (error) {
-        throw new HTTPException(500, {
-            message: error instanceof Error ? error.message : 'Failed to get contact details',
-        });
+        throw engineError(error, 'Failed to get contact details');
     }
 });
 
@@ -143,9 +139,7 @@ contacts.post('/verify', async (c) => {
             data: results,
         });
     } catch (error) {
-        throw new HTTPException(500, {
-            message: error instanceof Error ? error.message : 'Failed to verify numbers',
-        });
+        throw engineError(error, 'Failed to verify numbers');
     }
 });
 
@@ -166,9 +160,7 @@ contacts.post('/block', async (c) => {
             message: 'Contact blocked successfully',
         });
     } catch (error) {
-        throw new HTTPException(500, {
-            message: error instanceof Error ? error.message : 'Failed to block contact',
-        });
+        throw engineError(error, 'Failed to block contact');
     }
 });
 
@@ -189,9 +181,7 @@ contacts.post('/unblock', async (c) => {
             message: 'Contact unblocked successfully',
         });
     } catch (error) {
-        throw new HTTPException(500, {
-            message: error instanceof Error ? error.message : 'Failed to unblock contact',
-        });
+        throw engineError(error, 'Failed to unblock contact');
     }
 });
 
@@ -210,9 +200,7 @@ contacts.get('/blocked', async (c) => {
             data: blockedContacts,
         });
     } catch (error) {
-        throw new HTTPException(500, {
-            message: error instanceof Error ? error.message : 'Failed to get blocked contacts',
-        });
+        throw engineError(error, 'Failed to get blocked contacts');
     }
 });
 
@@ -2,12 +2,14 @@ import { Hono } from 'hono';
 import { z } from 'zod';
 import { waManager } from '../../lib/whatsapp.js';
 import { instanceTokenMiddleware } from '../../middlewares/auth.js';
-import { HTTPException } from 'hono/http-exception';
+import { forwardToOwner } from '../../middlewares/cluster.js';
+import { engineError } from '../../middlewares/error.js';
 
 const groups = new Hono();
 
 // All group routes use instance token authentication
 groups.use('*', instanceTokenMiddleware);
+groups.use('*', forwardToOwner);
 
 // ================================
 // Schemas
@@ -62,9 +64,7 @@ groups.post('/create', async (c) => {
             data: result,
         });
     } catch (error) {
-        throw new HTTPException(500, {
-            message: error instanceof Error ? error.message : 'Failed to create group',
-        });
+        throw engineError(error, 'Failed to create group');
     }
 });
 
@@ -85,9 +85,7 @@ groups.post('/info', async (c) => {
             data: info,
         });
     } catch (error) {
-        throw new HTTPException(500, {
-            message: error instanceof Error ? error.message : 'Failed to get group info',
-        });
+        throw engineError(error, 'Failed to get group info');
     }
 });
 
@@ -107,9 +105,7 @@ groups.get('/', async (c) => {
             data: groupsList,
         });
     } catch (error) {
-        throw new HTTPException(500, {
-            message: error instanceof Error ? error.message : 'Failed to list groups',
-        });
+        throw engineError(error, 'Failed to list groups');
     }
 });
 
@@ -148,9 +144,7 @@ groups.post('/list', async (c) => {
             },
         });
     } catch (error) {
-        throw new HTTPException(500, {
-            message: error instanceof Error ? error.message : 'Failed to list groups',
-        });
+        throw engineError(error, 'Failed to list groups');
     }
 });
 
@@ -164,16 +158,16 @@ groups.post('/participants/add', async (c) => {
     const data = participantsSchema.parse(body);
 
     try {
-        await waManager.addParticipants(instanceId, data.groupId, data.participants);
+        const results = await waManager.addParticipants(instanceId, data.groupId, data.participants);
+        const done = results.filter((r) => r.status === 'added').length;
 
         return c.json({
             success: true,
-            message: 'Participants added successfully',
+            message: `${done} of ${results.length} participants added`,
+            data: results,
         });
     } catch (error) {
-        throw new HTTPException(500, {
-            message: error instanceof Error ? error.message : 'Failed to add participants',
-        });
+        throw engineError(error, 'Failed to add participants');
     }
 });
 
@@ -187,16 +181,16 @@ groups.post('/participants/remove', async (c) => {
     const data = participantsSchema.parse(body);
 
     try {
-        await waManager.removeParticipants(instanceId, data.groupId, data.participants);
+        const results = await waManager.removeParticipants(instanceId, data.groupId, data.participants);
+        const done = results.filter((r) => r.status === 'removed').length;
 
         return c.json({
             success: true,
-            message: 'Participants removed successfully',
+            message: `${done} of ${results.length} participants removed`,
+            data: results,
         });
     } catch (error) {
-        throw new HTTPException(500, {
-            message: error instanceof Error ? error.message : 'Failed to remove participants',
-        });
+        throw engineError(error, 'Failed to remove participants');
     }
 });
 
@@ -210,16 +204,16 @@ groups.post('/participants/promote', async (c) => {
     const data = participantsSchema.parse(body);
 
     try {
-        await waManager.promoteParticipants(instanceId, data.groupId, data.participants);
+        const results = await waManager.promoteParticipants(instanceId, data.groupId, data.participants);
+        const done = results.filter((r) => r.status === 'promoted').length;
 
         return c.json({
             success: true,
-            message: 'Participants promoted successfully',
+            message: `${done} of ${results.length} participants promoted`,
+            data: results,
         });
     } catch (error) {
-        throw new HTTPException(500, {
-            message: error instanceof Error ? error.message : 'Failed to promote participants',
-        });
+        throw engineError(error, 'Failed to promote participants');
     }
 });
 
@@ -233,16 +227,16 @@ groups.post('/participants/demote', async (c) => {
     const data = participantsSchema.parse(body);
 
     try {
-        await waManager.demoteParticipants(instanceId, data.groupId, data.participants);
+        const results = await waManager.demoteParticipants(instanceId, data.groupId, data.participants);
+        const done = results.filter((r) => r.status === 'demoted').length;
 
         return c.json({
             success: true,
-            message: 'Participants demoted successfully',
+            message: `${done} of ${results.length} participants demoted`,
+            data: results,
         });
     } catch (error) {
-        throw new HTTPException(500, {
-            message: error instanceof Error ? error.message : 'Failed to demote participants',
-        });
+        throw engineError(error, 'Failed to demote participants');
     }
 });
 
@@ -256,16 +250,15 @@ groups.post('/subject', async (c) => {
     const data = groupSubjectSchema.parse(body);
 
     try {
-        await waManager.setGroupSubject(instanceId, data.groupId, data.subject);
+        const group = await waManager.setGroupSubject(instanceId, data.groupId, data.subject);
 
         return c.json({
             success: true,
             message: 'Group subject updated successfully',
+            data: group,
         });
     } catch (error) {
-        throw new HTTPException(500, {
-            message: error instanceof Error ? error.message : 'Failed to update group subject',
-        });
+        throw engineError(error, 'Failed to update group subject');
     }
 });
 
@@ -279,16 +272,15 @@ groups.post('/description', async (c) => {
     const data = groupDescriptionSchema.parse(body);
 
     try {
-        await waManager.setGroupDescription(instanceId, data.groupId, data.description);
+        const group = await waManager.setGroupDescription(instanceId, data.groupId, data.description);
 
         return c.json({
             success: true,
             message: 'Group description updated successfully',
+            data: group,
         });
     } catch (error) {
-        throw new HTTPException(500, {
-            message: error instanceof Error ? error.message : 'Failed to update group description',
-        });
+        throw engineError(error, 'Failed to update group description');
     }
 });
 
@@ -309,9 +301,7 @@ groups.post('/leave', async (c) => {
             message: 'Left group successfully',
         });
     } catch (error) {
-        throw new HTTPException(500, {
-            message: error instanceof Error ? error.message : 'Failed to leave group',
-        });
+        throw engineError(error, 'Failed to leave group');
     }
 });
 
@@ -335,9 +325,7 @@ groups.post('/invite-code', async (c) => {
             },
         });
     } catch (error) {
-        throw new HTTPException(500, {
-            message: error instanceof Error ? error.message : 'Failed to get invite code',
-        });
+        throw engineError(error, 'Failed to get invite code');
     }
 });
 
@@ -361,9 +349,7 @@ groups.post('/revoke-invite', async (c) => {
             },
         });
     } catch (error) {
-        throw new HTTPException(500, {
-            message: error instanceof Error ? error.message : 'Failed to revoke invite code',
-        });
+        throw engineError(error, 'Failed to revoke invite code');
     }
 });
 
@@ -391,9 +377,7 @@ groups.post('/join', async (c) => {
             },
         });
     } catch (error) {
-        throw new HTTPException(500, {
-            message: error instanceof Error ? error.message : 'Failed to join group',
-        });
+        throw engineError(error, 'Failed to join group');
     }
 });
 
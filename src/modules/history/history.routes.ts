@@ -0,0 +1,85 @@
+import { Hono } from 'hono';
+import { z } from 'zod';
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../../lib/prisma.js';
+import { toWid } from '../../lib/engine.js';
+import { instanceTokenMiddleware } from '../../middlewares/auth.js';
+
+const history = new Hono();
+
+// Stored messages are read from the database, so any node can answer (no forwardToOwner)
+history.use('*', instanceTokenMiddleware);
+
+// ================================
+// Schemas
+// ================================
+
+const listMessagesSchema = z.object({
+    chatId: z.string().min(1).optional(),
+    direction: z.enum(['inbound', 'outbound']).optional(),
+    type: z.string().min(1).optional(),
+    from: z.coerce.date().optional(), // ISO date, inclusive
+    to: z.coerce.date().optional(), // ISO date, exclusive
+    q: z.string().min(1).optional(), // body contains (case insensitive)
+    cursor: z.string().uuid().optional(),
+    limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+// ================================
+// Message History Routes
+// ================================
+
+/**
+ * GET /messages
+ * Stored messages of the instance, newest first, with cursor pagination
+ */
+history.get('/', async (c) => {
+    const instanceId = c.get('instanceId');
+    const { chatId, direction, type, from, to, q, cursor, limit } = listMessagesSchema.parse(c.req.query());
+
+    const where: Prisma.ChatMessageWhereInput = {
+        instanceId,
+        ...(chatId && { chatId: toWid(chatId) }),
+        ...(direction && { direction: direction === 'inbound' ? 'INBOUND' : 'OUTBOUND' }),
+        ...(type && { type }),
+        ...((from || to) && { timestamp: { ...(from && { gte: from }), ...(to && { lt: to }) } }),
+        ...(q && { body: { contains: q, mode: 'insensitive' } }),
+    };
+
+    // One extra row tells whether there is a next page
+    const rows = await prisma.chatMessage.findMany({
+        where,
+        orderBy: [{ timestamp: 'desc' }, { id: 'desc' }],
+        take: limit + 1,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+    });
+
+    const hasMore = rows.length > limit;
+    const messages = hasMore ? rows.slice(0, limit) : rows;
+
+    return c.json({
+        success: true,
+        data: {
+            messages: messages.map((m) => ({
+                id: m.id,
+                waMessageId: m.waMessageId,
+                chatId: m.chatId,
+                sender: m.sender,
+                direction: m.direction.toLowerCase(),
+                type: m.type,
+                body: m.body,
+                media: m.media,
+                quotedId: m.quotedId,
+                ack: m.ack,
+                isGroup: m.isGroup,
+                timestamp: m.timestamp,
+            })),
+            pagination: {
+                limit,
+                nextCursor: hasMore ? messages[messages.length - 1].id : null,
+            },
+        },
+    });
+});
+
+export { history as historyRoutes };
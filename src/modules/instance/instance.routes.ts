@@ -1,13 +1,24 @@
 import { Hono } from 'hono';
 import { streamSSE } from 'hono/streaming';
 import { z } from 'zod';
+import { env } from '../../config/env.js';
 import { prisma } from '../../lib/prisma.js';
 import { waManager } from '../../lib/whatsapp.js';
-import { authMiddleware } from '../../middlewares/auth.js';
+import { sessionStore } from '../../lib/session-store.js';
+import { createSessionArchive, openSessionArchive, sessionArchiveSchema } from '../../lib/session-archive.js';
+import { adminMiddleware, authMiddleware } from '../../middlewares/auth.js';
+import { getWaJsInfo } from '../../lib/wa-js.js';
+import { forwardToOwner } from '../../middlewares/cluster.js';
 import { HTTPException } from 'hono/http-exception';
+import { engineError } from '../../middlewares/error.js';
+import { BLOCKING_POLICIES, type BlockingPolicy, resolveBlockingPolicy } from '../../lib/request-policy.js';
+import { BROWSER_ENGINES } from '../../lib/browser-pool.js';
 
 const instance = new Hono();
 
+// The node owning the instance serves it (and authenticates the forwarded call)
+instance.use('/:id/*', forwardToOwner);
+
 // ================================
 // Schemas
 // ================================
@@ -16,12 +27,32 @@ const updateNameSchema = z.object({
     name: z.string().min(1).max(100),
 });
 
+const pairCodeSchema = z.object({
+    phoneNumber: z.string().min(8).max(20),
+});
+
+const isValidTimezone = (timezone: string) => {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+        return true;
+    } catch {
+        return false;
+    }
+};
+
 const updateSettingsSchema = z.object({
     alwaysOnline: z.boolean().optional(),
     ignoreGroups: z.boolean().optional(),
     rejectCalls: z.boolean().optional(),
     readMessages: z.boolean().optional(),
     syncFullHistory: z.boolean().optional(),
+    autoTakeover: z.boolean().optional(),
+    blockingPolicy: z.enum(BLOCKING_POLICIES).nullable().optional(), // null falls back to WA_BLOCKING_POLICY
+    // Browser and fingerprint, applied on the next connect; null falls back to the env defaults
+    browserEngine: z.enum(BROWSER_ENGINES).nullable().optional(),
+    userAgent: z.string().min(1).max(500).nullable().optional(),
+    locale: z.string().regex(/^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/, 'Invalid locale').nullable().optional(),
+    timezone: z.string().refine(isValidTimezone, 'Invalid timezone').nullable().optional(),
     // Proxy
     proxyHost: z.string().optional(),
     proxyPort: z.string().optional(),
@@ -30,6 +61,16 @@ const updateSettingsSchema = z.object({
     proxyProtocol: z.string().optional(),
 });
 
+const importSessionSchema = z.object({
+    archive: sessionArchiveSchema,
+    passphrase: z.string().min(8).optional(),
+    connect: z.boolean().default(true),
+    force: z.boolean().default(false), // accept an archive exported without handoff
+});
+
+// States in which the instance holds (or is acquiring) a live session
+const LIVE_STATES = ['initializing', 'loading', 'qr', 'pairing', 'syncing', 'connected'];
+
 // ================================
 // Instance Connection Routes
 // ================================
@@ -54,6 +95,8 @@ instance.post('/:id/connect', authMiddleware, async (c) => {
         throw new HTTPException(404, { message: 'Instance not found' });
     }
 
+    await assertNotExported(id, instanceData.sessionExportedAt, c.req.query('force') === 'true');
+
     try {
         const waInstance = await waManager.connect(id);
 
@@ -68,9 +111,51 @@ instance.post('/:id/connect', authMiddleware, async (c) => {
             },
         });
     } catch (error) {
-        throw new HTTPException(500, {
-            message: error instanceof Error ? error.message : 'Failed to connect'
+        throw engineError(error, 'Failed to connect');
+    }
+});
+
+/**
+ * POST /instance/:id/pair-code
+ * Connect instance with a pairing code (link with phone number) instead of the QR code
+ */
+instance.post('/:id/pair-code', authMiddleware, async (c) => {
+    const { id } = c.req.param();
+    const user = c.get('user');
+    const body = await c.req.json();
+    const data = pairCodeSchema.parse(body);
+
+    const instanceData = await prisma.instance.findFirst({
+        where: {
+            id,
+            OR: [{ userId: user.userId }, { user: { role: 'ADMIN' } }],
+        },
+    });
+
+    if (!instanceData) {
+        throw new HTTPException(404, { message: 'Instance not found' });
+    }
+
+    if (waManager.getStatus(id) === 'connected') {
+        throw new HTTPException(400, { message: 'Instance already connected' });
+    }
+
+    await assertNotExported(id, instanceData.sessionExportedAt, c.req.query('force') === 'true');
+
+    try {
+        const result = await waManager.requestPairingCode(id, data.phoneNumber);
+
+        return c.json({
+            success: true,
+            data: {
+                status: 'pairing',
+                pairCode: result.code,
+                phoneNumber: result.phoneNumber,
+                message: 'Enter the code on WhatsApp > Linked devices > Link with phone number',
+            },
         });
+    } catch (error) {
+        throw engineError(error, 'Failed to generate pairing code');
     }
 });
 
@@ -101,9 +186,7 @@ instance.post('/:id/disconnect', authMiddleware, async (c) => {
             message: 'Instance disconnected successfully',
         });
     } catch (error) {
-        throw new HTTPException(500, {
-            message: error instanceof Error ? error.message : 'Failed to disconnect'
-        });
+        throw engineError(error, 'Failed to disconnect');
     }
 });
 
@@ -134,9 +217,7 @@ instance.post('/:id/logout', authMiddleware, async (c) => {
             message: 'Logged out successfully',
         });
     } catch (error) {
-        throw new HTTPException(500, {
-            message: error instanceof Error ? error.message : 'Failed to logout'
-        });
+        throw engineError(error, 'Failed to logout');
     }
 });
 
@@ -168,13 +249,105 @@ instance.get('/:id/status', authMiddleware, async (c) => {
             id: instanceData.id,
             name: instanceData.name,
             status: status !== 'not_found' ? status : instanceData.status.toLowerCase(),
+            statusReason: status !== 'not_found' ? waManager.getStatusReason(id) : instanceData.statusReason,
+            statusChangedAt: instanceData.statusChangedAt,
             waNumber: instanceData.waNumber,
             waName: instanceData.waName,
             qrCode: qrData.qrBase64,
+            pairCode: waManager.getPairCode(id),
+            queue: waManager.getQueueStats(id),
+            resources: waManager.getResourceStats(id),
+            blockedRequests: waManager.getBlockedRequestStats(id),
         },
     });
 });
 
+/**
+ * DELETE /instance/:id/queue
+ * Cancel the commands waiting for the instance (the running ones are left to finish)
+ */
+instance.delete('/:id/queue', authMiddleware, async (c) => {
+    const { id } = c.req.param();
+    const user = c.get('user');
+
+    const instanceData = await prisma.instance.findFirst({
+        where: {
+            id,
+            OR: [{ userId: user.userId }, { user: { role: 'ADMIN' } }],
+        },
+    });
+
+    if (!instanceData) {
+        throw new HTTPException(404, { message: 'Instance not found' });
+    }
+
+    const cancelled = waManager.cancelCommands(id);
+
+    return c.json({
+        success: true,
+        data: {
+            cancelled,
+            queue: waManager.getQueueStats(id),
+        },
+    });
+});
+
+/**
+ * GET /instance/:id/diagnostics
+ * Admin-only troubleshooting: screenshot, recent console errors and failed requests,
+ * page URL, wa-js / WhatsApp Web versions and state history
+ */
+instance.get('/:id/diagnostics', authMiddleware, adminMiddleware, async (c) => {
+    const { id } = c.req.param();
+    const limit = Math.min(Math.max(parseInt(c.req.query('limit') || '50') || 50, 1), env.waDiagnosticsBufferSize);
+    const screenshot = c.req.query('screenshot') !== 'false';
+
+    const instanceData = await prisma.instance.findUnique({ where: { id } });
+
+    if (!instanceData) {
+        throw new HTTPException(404, { message: 'Instance not found' });
+    }
+
+    try {
+        const [diagnostics, history] = await Promise.all([
+            waManager.getDiagnostics(id, { screenshot, limit }),
+            prisma.instanceStatusLog.findMany({
+                where: { instanceId: id },
+                orderBy: { createdAt: 'desc' },
+                take: limit,
+                select: { from: true, to: true, reason: true, createdAt: true },
+            }),
+        ]);
+
+        const status = waManager.getStatus(id);
+
+        return c.json({
+            success: true,
+            data: {
+                id,
+                running: diagnostics !== null,
+                status: status !== 'not_found' ? status : instanceData.status.toLowerCase(),
+                statusReason: status !== 'not_found' ? waManager.getStatusReason(id) : instanceData.statusReason,
+                url: diagnostics?.url ?? null,
+                screenshot: diagnostics?.screenshot ?? null,
+                versions: {
+                    waJs: diagnostics?.versions.waJs ?? null,
+                    waJsPackage: getWaJsInfo(),
+                    whatsappWeb: diagnostics?.versions.whatsappWeb ?? null,
+                },
+                consoleErrors: diagnostics?.consoleErrors ?? [],
+                failedRequests: diagnostics?.failedRequests ?? [],
+                resources: waManager.getResourceStats(id),
+                queue: waManager.getQueueStats(id),
+                blockedRequests: waManager.getBlockedRequestStats(id),
+                history,
+            },
+        });
+    } catch (error) {
+        throw engineError(error, 'Failed to collect diagnostics');
+    }
+});
+
 /**
  * GET /instance/:id/qr
  * Get QR code for connection
@@ -224,7 +397,7 @@ instance.get('/:id/qr', authMiddleware, async (c) => {
 
 /**
  * GET /instance/:id/qr/stream
- * Stream QR code updates via SSE
+ * Stream QR code and pairing code updates via SSE
  */
 instance.get('/:id/qr/stream', authMiddleware, async (c) => {
     const { id } = c.req.param();
@@ -242,7 +415,7 @@ instance.get('/:id/qr/stream', authMiddleware, async (c) => {
     }
 
     return streamSSE(c, async (stream) => {
-        let isConnected = false;
+        let isDone = false;
 
         const onQR = (data: { instanceId: string; qrBase64: string }) => {
             if (data.instanceId === id) {
@@ -253,9 +426,18 @@ instance.get('/:id/qr/stream', authMiddleware, async (c) => {
             }
         };
 
+        const onPairCode = (data: { instanceId: string; code: string }) => {
+            if (data.instanceId === id) {
+                stream.writeSSE({
+                    data: JSON.stringify({ type: 'pair_code', pairCode: data.code }),
+                    event: 'pair_code',
+                });
+            }
+        };
+
         const onReady = (data: { instanceId: string }) => {
             if (data.instanceId === id) {
-                isConnected = true;
+                isDone = true;
                 stream.writeSSE({
                     data: JSON.stringify({ type: 'connected' }),
                     event: 'connected',
@@ -263,6 +445,25 @@ instance.get('/:id/qr/stream', authMiddleware, async (c) => {
             }
         };
 
+        const onStatusChange = (data: { instanceId: string; status: string; reason?: string }) => {
+            if (data.instanceId === id) {
+                stream.writeSSE({
+                    data: JSON.stringify({ type: 'status', status: data.status, reason: data.reason }),
+                    event: 'status',
+                });
+            }
+        };
+
+        const onQRTimeout = (data: { instanceId: string; mode: string }) => {
+            if (data.instanceId === id) {
+                isDone = true;
+                stream.writeSSE({
+                    data: JSON.stringify({ type: 'qr_timeout', mode: data.mode }),
+                    event: 'qr_timeout',
+                });
+            }
+        };
+
         const onDisconnected = (data: { instanceId: string }) => {
             if (data.instanceId === id) {
                 stream.writeSSE({
@@ -273,6 +474,9 @@ instance.get('/:id/qr/stream', authMiddleware, async (c) => {
         };
 
         waManager.on('qr', onQR);
+        waManager.on('pair_code', onPairCode);
+        waManager.on('status_change', onStatusChange);
+        waManager.on('qr_timeout', onQRTimeout);
         waManager.on('ready', onReady);
         waManager.on('disconnected', onDisconnected);
 
@@ -285,12 +489,13 @@ instance.get('/:id/qr/stream', authMiddleware, async (c) => {
                 type: 'status',
                 status: currentStatus,
                 qrCode: qrData.qrBase64,
+                pairCode: waManager.getPairCode(id),
             }),
             event: 'status',
         });
 
         // Keep connection alive
-        while (!isConnected) {
+        while (!isDone) {
             await stream.sleep(30000); // Keep-alive every 30s
             stream.writeSSE({
                 data: JSON.stringify({ type: 'ping' }),
@@ -300,6 +505,9 @@ instance.get('/:id/qr/stream', authMiddleware, async (c) => {
 
         // Cleanup
         waManager.off('qr', onQR);
+        waManager.off('pair_code', onPairCode);
+        waManager.off('status_change', onStatusChange);
+        waManager.off('qr_timeout', onQRTimeout);
         waManager.off('ready', onReady);
         waManager.off('disconnected', onDisconnected);
     });
@@ -442,6 +650,12 @@ instance.get('/:id/settings', authMiddleware, async (c) => {
             rejectCalls: true,
             readMessages: true,
             syncFullHistory: true,
+            autoTakeover: true,
+            blockingPolicy: true,
+            browserEngine: true,
+            userAgent: true,
+            locale: true,
+            timezone: true,
             proxyHost: true,
             proxyPort: true,
             proxyUsername: true,
@@ -491,6 +705,12 @@ instance.patch('/:id/settings', authMiddleware, async (c) => {
                 ...(data.rejectCalls !== undefined && { rejectCalls: data.rejectCalls }),
                 ...(data.readMessages !== undefined && { readMessages: data.readMessages }),
                 ...(data.syncFullHistory !== undefined && { syncFullHistory: data.syncFullHistory }),
+                ...(data.autoTakeover !== undefined && { autoTakeover: data.autoTakeover }),
+                ...(data.blockingPolicy !== undefined && { blockingPolicy: data.blockingPolicy }),
+                ...(data.browserEngine !== undefined && { browserEngine: data.browserEngine }),
+                ...(data.userAgent !== undefined && { userAgent: data.userAgent }),
+                ...(data.locale !== undefined && { locale: data.locale }),
+                ...(data.timezone !== undefined && { timezone: data.timezone }),
                 ...(data.proxyHost !== undefined && { proxyHost: data.proxyHost }),
                 ...(data.proxyPort !== undefined && { proxyPort: data.proxyPort }),
                 ...(data.proxyUsername !== undefined && { proxyUsername: data.proxyUsername }),
@@ -504,6 +724,12 @@ instance.patch('/:id/settings', authMiddleware, async (c) => {
                 rejectCalls: true,
                 readMessages: true,
                 syncFullHistory: true,
+                autoTakeover: true,
+                blockingPolicy: true,
+                browserEngine: true,
+                userAgent: true,
+                locale: true,
+                timezone: true,
                 proxyHost: true,
                 proxyPort: true,
                 proxyUsername: true,
@@ -513,7 +739,10 @@ instance.patch('/:id/settings', authMiddleware, async (c) => {
         });
 
         // Notify WhatsApp manager about settings change
-        waManager.updateInstanceSettings(id, updated);
+        waManager.updateInstanceSettings(id, {
+            ...updated,
+            blockingPolicy: resolveBlockingPolicy(updated.blockingPolicy),
+        });
 
         return c.json({
             success: true,
@@ -528,4 +757,185 @@ instance.patch('/:id/settings', authMiddleware, async (c) => {
     }
 });
 
+// ================================
+// Session Transfer Routes
+// ================================
+
+/**
+ * Refuse to bring up a session that was exported to another server,
+ * unless forced (which clears the mark)
+ */
+async function assertNotExported(id: string, exportedAt: Date | null, force: boolean) {
+    if (!exportedAt) return;
+
+    if (!force) {
+        throw new HTTPException(409, {
+            message: `Session was exported at ${exportedAt.toISOString()} and may be live on another server. Pass ?force=true to use it here`,
+        });
+    }
+
+    await prisma.instance.update({ where: { id }, data: { sessionExportedAt: null } });
+}
+
+/**
+ * GET /instance/:id/session/export
+ * Export the session as an encrypted archive (X-Session-Passphrase header, optional).
+ * Read-only unless ?handoff=true, which also disconnects the instance here and blocks it
+ * from connecting until forced.
+ */
+instance.get('/:id/session/export', authMiddleware, async (c) => {
+    const { id } = c.req.param();
+    const user = c.get('user');
+    const passphrase = c.req.header('X-Session-Passphrase');
+    const handoff = c.req.query('handoff') === 'true';
+
+    const instanceData = await prisma.instance.findFirst({
+        where: {
+            id,
+            OR: [{ userId: user.userId }, { user: { role: 'ADMIN' } }],
+        },
+    });
+
+    if (!instanceData) {
+        throw new HTTPException(404, { message: 'Instance not found' });
+    }
+
+    if (passphrase !== undefined && passphrase.length < 8) {
+        throw new HTTPException(400, { message: 'Passphrase must have at least 8 characters' });
+    }
+
+    try {
+        // Hand the session off: it must not stay live here once it is restored elsewhere
+        if (handoff && LIVE_STATES.includes(waManager.getStatus(id))) {
+            await waManager.disconnect(id);
+        }
+
+        const storageState = await sessionStore.load(id);
+        if (!storageState) {
+            throw new HTTPException(404, { message: 'No saved session to export' });
+        }
+
+        const archive = createSessionArchive({
+            instanceId: id,
+            waNumber: instanceData.waNumber,
+            waName: instanceData.waName,
+            handoff,
+            settings: {
+                alwaysOnline: instanceData.alwaysOnline,
+                ignoreGroups: instanceData.ignoreGroups,
+                rejectCalls: instanceData.rejectCalls,
+                readMessages: instanceData.readMessages,
+                syncFullHistory: instanceData.syncFullHistory,
+                autoTakeover: instanceData.autoTakeover,
+                blockingPolicy: instanceData.blockingPolicy as BlockingPolicy | null,
+            },
+            storageState,
+        }, passphrase);
+
+        if (handoff) {
+            await prisma.instance.update({
+                where: { id },
+                data: { sessionExportedAt: new Date(archive.exportedAt) },
+            });
+        }
+
+        c.header('Content-Disposition', `attachment; filename="session-${id}.json"`);
+        return c.json(archive);
+    } catch (error) {
+        if (error instanceof HTTPException) throw error;
+        throw engineError(error, 'Failed to export session');
+    }
+});
+
+/**
+ * POST /instance/:id/session/import
+ * Restore an exported session (and its settings) and connect without scanning a new QR.
+ * Archives exported without handoff are refused unless forced, the source may still be live.
+ */
+instance.post('/:id/session/import', authMiddleware, async (c) => {
+    const { id } = c.req.param();
+    const user = c.get('user');
+    const body = await c.req.json();
+    const data = importSessionSchema.parse(body);
+
+    const instanceData = await prisma.instance.findFirst({
+        where: {
+            id,
+            OR: [{ userId: user.userId }, { user: { role: 'ADMIN' } }],
+        },
+    });
+
+    if (!instanceData) {
+        throw new HTTPException(404, { message: 'Instance not found' });
+    }
+
+    if (LIVE_STATES.includes(waManager.getStatus(id))) {
+        throw new HTTPException(409, { message: 'Instance has a live session; disconnect it before importing' });
+    }
+
+    let content;
+    try {
+        content = openSessionArchive(data.archive, data.passphrase);
+    } catch (error) {
+        throw new HTTPException(400, {
+            message: error instanceof Error ? error.message : 'Invalid session archive'
+        });
+    }
+
+    // Without handoff the source kept the session, importing it would run it twice
+    if (!content.handoff && !data.force) {
+        throw new HTTPException(409, {
+            message: 'Archive was exported without handoff and the session may still be live on the source. Export it with ?handoff=true or pass "force": true',
+        });
+    }
+
+    // The same WhatsApp account already running on this server under another instance
+    if (content.waNumber) {
+        const live = await prisma.instance.findFirst({
+            where: { id: { not: id }, waNumber: content.waNumber, status: { in: ['CONNECTED', 'SYNCING'] } },
+            select: { id: true },
+        });
+        if (live) {
+            throw new HTTPException(409, { message: `This session is already live on instance ${live.id}` });
+        }
+    }
+
+    const { alwaysOnline, ignoreGroups, rejectCalls, readMessages, syncFullHistory, autoTakeover, blockingPolicy } = content.settings;
+    const settings = { alwaysOnline, ignoreGroups, rejectCalls, readMessages, syncFullHistory, autoTakeover };
+
+    try {
+        await sessionStore.save(id, content.storageState);
+
+        const updated = await prisma.instance.update({
+            where: { id },
+            data: {
+                ...settings,
+                blockingPolicy,
+                waNumber: content.waNumber,
+                waName: content.waName,
+                sessionExportedAt: null,
+            },
+        });
+        waManager.updateInstanceSettings(id, {
+            ...settings,
+            blockingPolicy: resolveBlockingPolicy(blockingPolicy),
+        });
+
+        const status = data.connect ? (await waManager.connect(id)).status : waManager.getStatus(id);
+
+        return c.json({
+            success: true,
+            data: {
+                id: updated.id,
+                status,
+                waNumber: updated.waNumber,
+                exportedAt: data.archive.exportedAt,
+                sourceInstanceId: content.instanceId,
+            },
+        });
+    } catch (error) {
+        throw engineError(error, 'Failed to import session');
+    }
+});
+
 export { instance as instanceRoutes };
@@ -2,12 +2,14 @@ import { Hono } from 'hono';
 import { z } from 'zod';
 import { waManager } from '../../lib/whatsapp.js';
 import { instanceTokenMiddleware } from '../../middlewares/auth.js';
-import { HTTPException } from 'hono/http-exception';
+import { forwardToOwner } from '../../middlewares/cluster.js';
+import { engineError } from '../../middlewares/error.js';
 
 const labels = new Hono();
 
 // All label routes use instance token authentication
 labels.use('*', instanceTokenMiddleware);
+labels.use('*', forwardToOwner);
 
 // ================================
 // Schemas
@@ -38,9 +40,7 @@ labels.get('/', async (c) => {
             data: labelsList,
         });
     } catch (error) {
-        throw new HTTPException(500, {
-            message: error instanceof Error ? error.message : 'Failed to get labels',
-        });
+        throw engineError(error, 'Failed to get labels');
     }
 });
 
@@ -65,9 +65,7 @@ labels.post('/chat', async (c) => {
             message: `Label ${action === 'add' ? 'added to' : 'removed from'} chat successfully`,
         });
     } catch (error) {
-        throw new HTTPException(500, {
-            message: error instanceof Error ? error.message : 'Failed to manage chat label',
-        });
+        throw engineError(error, 'Failed to manage chat label');
     }
 });
 
@@ -2,7 +2,8 @@ import { Hono } from 'hono';
 import { z } from 'zod';
 import { waManager } from '../../lib/whatsapp.js';
 import { instanceTokenMiddleware } from '../../middlewares/auth.js';
-import { HTTPException } from 'hono/http-exception';
+import { forwardToOwner } from '../../middlewares/cluster.js';
+import { engineError } from '../../middlewares/error.js';
 
 const messages = new Hono();
 
@@ -22,6 +23,7 @@ const messages = new Hono();
 
 // All message routes use instance token authentication
 messages.use('*', instanceTokenMiddleware);
+messages.use('*', forwardToOwner);
 
 // ================================
 // Schemas
@@ -39,6 +41,8 @@ const mediaMessageSchema = z.object({
     mimetype: z.string().optional(),
     caption: z.string().optional(),
     filename: z.string().optional(),
+    type: z.enum(['image', 'video', 'audio', 'document', 'sticker']).optional(),
+    ptt: z.boolean().optional(),
 }).refine(
     (data) => data.mediaUrl || (data.base64 && data.mimetype),
     'Either mediaUrl or base64+mimetype must be provided'
@@ -68,18 +72,29 @@ const pollSchema = z.object({
     allowMultipleAnswers: z.boolean().default(false),
 });
 
+// Serialized message id or { chatId, id, fromMe }
+const messageRefSchema = z.union([
+    z.string().min(1),
+    z.object({
+        chatId: z.string().min(1),
+        id: z.string().min(1),
+        fromMe: z.boolean().optional(),
+        participant: z.string().optional(),
+    }),
+]);
+
 const reactionSchema = z.object({
-    messageId: z.string().min(1),
-    reaction: z.string().min(1),
+    messageId: messageRefSchema,
+    reaction: z.string(), // Empty string removes the reaction
 });
 
 const deleteMessageSchema = z.object({
-    messageId: z.string().min(1),
+    messageId: messageRefSchema,
     forEveryone: z.boolean().default(true),
 });
 
 const editMessageSchema = z.object({
-    messageId: z.string().min(1),
+    messageId: messageRefSchema,
     newText: z.string().min(1),
 });
 
@@ -123,9 +138,7 @@ messages.post('/text', async (c) => {
         const errorMessage = error instanceof Error ? error.message : 'Failed to send message';
         console.error(`[Message Send Error] Instance: ${instanceId}, To: ${data.to}, Error: ${errorMessage}`);
         
-        throw new HTTPException(500, {
-            message: errorMessage,
-        });
+        throw engineError(error, errorMessage);
     }
 });
 
@@ -145,6 +158,8 @@ messages.post('/media', async (c) => {
             result = await waManager.sendMedia(instanceId, data.to, data.mediaUrl, {
                 caption: data.caption,
                 filename: data.filename,
+                type: data.type,
+                ptt: data.ptt,
             });
         } else if (data.base64 && data.mimetype) {
             result = await waManager.sendMediaBase64(
@@ -155,6 +170,8 @@ messages.post('/media', async (c) => {
                 {
                     caption: data.caption,
                     filename: data.filename,
+                    type: data.type,
+                    ptt: data.ptt,
                 }
             );
         } else {
@@ -166,9 +183,7 @@ messages.post('/media', async (c) => {
             data: result,
         });
     } catch (error) {
-        throw new HTTPException(500, {
-            message: error instanceof Error ? error.message : 'Failed to send media',
-        });
+        throw engineError(error, 'Failed to send media');
     }
 });
 
@@ -195,9 +210,7 @@ messages.post('/location', async (c) => {
             data: result,
         });
     } catch (error) {
-        throw new HTTPException(500, {
-            message: error instanceof Error ? error.message : 'Failed to send location',
-        });
+        throw engineError(error, 'Failed to send location');
     }
 });
 
@@ -218,9 +231,7 @@ messages.post('/contact', async (c) => {
             data: result,
         });
     } catch (error) {
-        throw new HTTPException(500, {
-            message: error instanceof Error ? error.message : 'Failed to send contact',
-        });
+        throw engineError(error, 'Failed to send contact');
     }
 });
 
@@ -234,16 +245,15 @@ messages.post('/presence', async (c) => {
     const data = presenceSchema.parse(body);
 
     try {
-        await waManager.sendPresence(instanceId, data.to, data.presence);
+        const result = await waManager.sendPresence(instanceId, data.to, data.presence);
 
         return c.json({
             success: true,
             message: `Presence set to ${data.presence}`,
+            data: result,
         });
     } catch (error) {
-        throw new HTTPException(500, {
-            message: error instanceof Error ? error.message : 'Failed to set presence',
-        });
+        throw engineError(error, 'Failed to set presence');
     }
 });
 
@@ -270,9 +280,7 @@ messages.post('/poll', async (c) => {
             data: result,
         });
     } catch (error) {
-        throw new HTTPException(500, {
-            message: error instanceof Error ? error.message : 'Failed to send poll',
-        });
+        throw engineError(error, 'Failed to send poll');
     }
 });
 
@@ -293,9 +301,7 @@ messages.post('/edit', async (c) => {
             data: result,
         });
     } catch (error) {
-        throw new HTTPException(500, {
-            message: error instanceof Error ? error.message : 'Failed to edit message',
-        });
+        throw engineError(error, 'Failed to edit message');
     }
 });
 
@@ -327,9 +333,7 @@ messages.post('/download', async (c) => {
             data: result,
         });
     } catch (error) {
-        throw new HTTPException(500, {
-            message: error instanceof Error ? error.message : 'Failed to download media',
-        });
+        throw engineError(error, 'Failed to download media');
     }
 });
 
@@ -347,16 +351,15 @@ messages.post('/react', async (c) => {
     const data = reactionSchema.parse(body);
 
     try {
-        await waManager.reactToMessage(instanceId, data.messageId, data.reaction);
+        const result = await waManager.reactToMessage(instanceId, data.messageId, data.reaction);
 
         return c.json({
             success: true,
             message: 'Reaction sent successfully',
+            data: result,
         });
     } catch (error) {
-        throw new HTTPException(500, {
-            message: error instanceof Error ? error.message : 'Failed to send reaction',
-        });
+        throw engineError(error, 'Failed to send reaction');
     }
 });
 
@@ -370,16 +373,15 @@ messages.post('/delete', async (c) => {
     const data = deleteMessageSchema.parse(body);
 
     try {
-        await waManager.deleteMessage(instanceId, data.messageId, data.forEveryone);
+        const result = await waManager.deleteMessage(instanceId, data.messageId, data.forEveryone);
 
         return c.json({
             success: true,
             message: 'Message deleted successfully',
+            data: result,
         });
     } catch (error) {
-        throw new HTTPException(500, {
-            message: error instanceof Error ? error.message : 'Failed to delete message',
-        });
+        throw engineError(error, 'Failed to delete message');
     }
 });
 
@@ -400,9 +402,7 @@ messages.post('/search', async (c) => {
             data: messages,
         });
     } catch (error) {
-        throw new HTTPException(500, {
-            message: error instanceof Error ? error.message : 'Failed to search messages',
-        });
+        throw engineError(error, 'Failed to search messages');
     }
 });
 
@@ -423,9 +423,7 @@ messages.post('/read', async (c) => {
             message: 'Chat marked as read',
         });
     } catch (error) {
-        throw new HTTPException(500, {
-            message: error instanceof Error ? error.message : 'Failed to mark as read',
-        });
+        throw engineError(error, 'Failed to mark as read');
     }
 });
 
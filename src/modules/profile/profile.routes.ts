@@ -2,12 +2,15 @@ import { Hono } from 'hono';
 import { z } from 'zod';
 import { waManager } from '../../lib/whatsapp.js';
 import { instanceTokenMiddleware } from '../../middlewares/auth.js';
+import { forwardToOwner } from '../../middlewares/cluster.js';
 import { HTTPException } from 'hono/http-exception';
+import { engineError } from '../../middlewares/error.js';
 
 const profile = new Hono();
 
 // All profile routes use instance token authentication
 profile.use('*', instanceTokenMiddleware);
+profile.use('*', forwardToOwner);
 
 // ================================
 // Schemas
@@ -50,9 +53,7 @@ profile.post('/name', async (c) => {
             message: 'Profile name updated successfully',
         });
     } catch (error) {
-        throw new HTTPException(500, {
-            message: error instanceof Error ? error.message : 'Failed to update profile name',
-        });
+        throw engineError(error, 'Failed to update profile name');
     }
 });
 
@@ -73,9 +74,7 @@ profile.post('/status', async (c) => {
             message: 'Status updated successfully',
         });
     } catch (error) {
-        throw new HTTPException(500, {
-            message: error instanceof Error ? error.message : 'Failed to update status',
-        });
+        throw engineError(error, 'Failed to update status');
     }
 });
 
@@ -104,9 +103,7 @@ profile.post('/picture', async (c) => {
             message: 'Profile picture updated successfully',
         });
     } catch (error) {
-        throw new HTTPException(500, {
-            message: error instanceof Error ? error.message : 'Failed to update profile picture',
-        });
+        throw engineError(error, 'Failed to update profile picture');
     }
 });
 
@@ -1,8 +1,10 @@
 import { Hono } from 'hono';
 import { streamSSE } from 'hono/streaming';
 import { prisma } from '../../lib/prisma.js';
-import { waManager, WAEvent } from '../../lib/whatsapp.js';
+import { waManager } from '../../lib/whatsapp.js';
+import { isGroupEvent, WAEvent } from '../../lib/engine.js';
 import { instanceTokenMiddleware } from '../../middlewares/auth.js';
+import { forwardToOwner } from '../../middlewares/cluster.js';
 import { logger } from '../../lib/logger.js';
 import { env } from '../../config/env.js';
 
@@ -60,7 +62,14 @@ async function sendWebhookWithRetry(url: string, payload: WebhookPayload): Promi
     }
 }
 
+// Group traffic is still emitted (and stored) by the engine; ignoreGroups only hides it from subscribers
+function isIgnoredGroupEvent(instanceId: string, data: any) {
+    return waManager.getInstanceSettings(instanceId).ignoreGroups && isGroupEvent(data);
+}
+
 async function dispatchWebhook(instanceId: string, event: string, data: any): Promise<void> {
+    if (isIgnoredGroupEvent(instanceId, data)) return;
+
     const payload: WebhookPayload = {
         event,
         instanceId,
@@ -118,11 +127,16 @@ async function dispatchWebhook(instanceId: string, event: string, data: any): Pr
 
 export function setupWebhookListeners(): void {
     const events: WAEvent[] = [
+        'status_change',
         'qr',
+        'pair_code',
+        'qr_timeout',
         'ready',
         'authenticated',
         'auth_failure',
         'disconnected',
+        'reconnecting',
+        'reconnected',
         'message',
         'message_create',
         'message_ack',
@@ -150,7 +164,7 @@ const sseConnections = new Map<string, Set<WritableStreamDefaultWriter>>();
 
 export function broadcastSSE(instanceId: string, event: string, data: any): void {
     const connections = sseConnections.get(instanceId);
-    if (!connections) return;
+    if (!connections || isIgnoredGroupEvent(instanceId, data)) return;
 
     const message = `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
     const encoder = new TextEncoder();
@@ -173,7 +187,7 @@ export function broadcastSSE(instanceId: string, event: string, data: any): void
  * GET /sse/:instanceId
  * Server-Sent Events stream for real-time updates
  */
-webhooks.get('/sse/:instanceId', instanceTokenMiddleware, async (c) => {
+webhooks.get('/sse/:instanceId', instanceTokenMiddleware, forwardToOwner, async (c) => {
     const instanceId = c.get('instanceId');
 
     return streamSSE(c, async (stream) => {
@@ -188,11 +202,16 @@ webhooks.get('/sse/:instanceId', instanceTokenMiddleware, async (c) => {
         const handlers = new Map<string, (data: any) => void>();
 
         const events: WAEvent[] = [
+            'status_change',
             'qr',
+            'pair_code',
+            'qr_timeout',
             'ready',
             'authenticated',
             'auth_failure',
             'disconnected',
+            'reconnecting',
+            'reconnected',
             'message',
             'message_create',
             'message_ack',
@@ -205,7 +224,7 @@ webhooks.get('/sse/:instanceId', instanceTokenMiddleware, async (c) => {
 
         for (const event of events) {
             const handler = (data: any) => {
-                if (data.instanceId === instanceId) {
+                if (data.instanceId === instanceId && !isIgnoredGroupEvent(instanceId, data)) {
                     stream.writeSSE({
                         event,
                         data: JSON.stringify(data),
@@ -245,11 +264,16 @@ webhooks.get('/sse/:instanceId', instanceTokenMiddleware, async (c) => {
  */
 webhooks.get('/events', async (c) => {
     const events = [
+        { name: 'status_change', description: 'Connection state changed (with reason)' },
         { name: 'qr', description: 'QR code generated for connection' },
+        { name: 'pair_code', description: 'Pairing code generated or refreshed' },
+        { name: 'qr_timeout', description: 'QR/pairing codes expired without being used' },
         { name: 'ready', description: 'WhatsApp connected and ready' },
         { name: 'authenticated', description: 'Authentication successful' },
         { name: 'auth_failure', description: 'Authentication failed' },
         { name: 'disconnected', description: 'WhatsApp disconnected' },
+        { name: 'reconnecting', description: 'Crashed instance scheduled for reconnection (attempt, delay)' },
+        { name: 'reconnected', description: 'Crashed instance restored' },
         { name: 'message', description: 'New message received' },
         { name: 'message_create', description: 'Message created (sent or received)' },
         { name: 'message_ack', description: 'Message acknowledgement (delivered, read)' },
@@ -0,0 +1,70 @@
+import type { Worker } from 'bullmq';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { prisma } from '../../src/lib/prisma.js';
+import { redis } from '../../src/lib/redis.js';
+import { startCampaignWorker } from '../../src/modules/campaigns/campaigns.routes.js';
+import { api, bearer, connectInstance, createInstance, createUser, engine, TestInstance, TestUser, waitFor } from './helpers.js';
+
+describe('campaigns', () => {
+    let worker: Worker;
+    let owner: TestUser;
+    let instance: TestInstance;
+
+    beforeAll(async () => {
+        worker = startCampaignWorker();
+
+        owner = await createUser();
+        instance = await createInstance(owner);
+    });
+
+    afterAll(async () => {
+        await engine.logout(instance.id);
+        await worker.close();
+        await redis.quit();
+        await prisma.$disconnect();
+    });
+
+    async function createCampaign(recipients: string[]) {
+        const { status, body } = await api('POST', '/campaign/simple', {
+            headers: bearer(owner),
+            body: {
+                name: 'Integration',
+                instanceId: instance.id,
+                message: { type: 'text', text: 'Promoção' },
+                recipients,
+                delay: 1000,
+            },
+        });
+        expect(status).toBe(200);
+        return body.data.id as string;
+    }
+
+    it('refuses to start while the instance is offline', async () => {
+        const campaignId = await createCampaign(['5511966660001']);
+
+        const { status } = await api('POST', `/campaign/${campaignId}/start`, { headers: bearer(owner) });
+        expect(status).toBe(400);
+    });
+
+    it('sends every recipient and tracks the acks', async () => {
+        await connectInstance(owner, instance);
+        const campaignId = await createCampaign(['5511966660001', '0009999999']);
+
+        const { status } = await api('POST', `/campaign/${campaignId}/start`, { headers: bearer(owner) });
+        expect(status).toBe(200);
+
+        const campaign = await waitFor(() => prisma.campaign.findFirst({
+            where: { id: campaignId, status: 'COMPLETED' },
+        }), 20000);
+        expect(campaign).toMatchObject({ totalMessages: 2, sentMessages: 1, failedMessages: 1 });
+
+        const delivered = await waitFor(() => prisma.message.findFirst({
+            where: { campaignId, to: '5511966660001', status: 'READ' },
+        }));
+        expect(delivered.waMessageId).toMatch(/^true_5511966660001@c\.us_/);
+
+        const failed = await prisma.message.findFirstOrThrow({ where: { campaignId, to: '0009999999' } });
+        expect(failed).toMatchObject({ status: 'FAILED', waMessageId: null });
+        expect(failed.errorMsg).toContain('Number not on WhatsApp');
+    });
+});
@@ -0,0 +1,19 @@
+import { execFileSync } from 'child_process';
+import type { GlobalSetupContext } from 'vitest/node';
+
+/**
+ * Recreate the schema on the test database before the suites run
+ */
+export default function setup({ config }: GlobalSetupContext) {
+    const databaseUrl = config.env.DATABASE_URL ?? '';
+
+    // db push --force-reset drops every table, never point it at a real database
+    if (!new URL(databaseUrl).pathname.includes('test')) {
+        throw new Error(`Refusing to reset ${databaseUrl}: the database name must contain "test"`);
+    }
+
+    execFileSync('npx', ['prisma', 'db', 'push', '--force-reset', '--skip-generate'], {
+        env: { ...process.env, DATABASE_URL: databaseUrl },
+        stdio: 'inherit',
+    });
+}
@@ -0,0 +1,79 @@
+import { randomUUID } from 'crypto';
+import { app } from '../../src/app.js';
+import { prisma } from '../../src/lib/prisma.js';
+import { waManager } from '../../src/lib/whatsapp.js';
+import { asFakeEngine } from '../../src/lib/fake-engine.js';
+import { generateToken } from '../../src/middlewares/auth.js';
+
+export const engine = asFakeEngine(waManager);
+
+export interface TestUser {
+    id: string;
+    token: string;
+}
+
+export interface TestInstance {
+    id: string;
+    token: string;
+}
+
+/**
+ * Call a route in-process, with JSON in and out
+ */
+export async function api(method: string, path: string, options: { body?: unknown; headers?: Record<string, string> } = {}) {
+    const response = await app.request(path, {
+        method,
+        headers: { 'Content-Type': 'application/json', ...options.headers },
+        body: options.body === undefined ? undefined : JSON.stringify(options.body),
+    });
+
+    return { status: response.status, body: await response.json() as any };
+}
+
+export const bearer = (user: TestUser) => ({ Authorization: `Bearer ${user.token}` });
+
+export const instanceAuth = (instance: TestInstance) => ({ 'X-Instance-Token': instance.token });
+
+export async function createUser(role: 'USER' | 'ADMIN' = 'USER'): Promise<TestUser> {
+    const user = await prisma.user.create({
+        data: { email: `${randomUUID()}@test.local`, password: 'not-used', role },
+    });
+
+    return { id: user.id, token: await generateToken({ userId: user.id, email: user.email, role }) };
+}
+
+/**
+ * Create an instance through the admin API, owned by the given user
+ */
+export async function createInstance(owner: TestUser, data: { webhookUrl?: string; webhookEvents?: string[] } = {}): Promise<TestInstance> {
+    const admin = await createUser('ADMIN');
+    const { status, body } = await api('POST', '/admin/instance', {
+        headers: bearer(admin),
+        body: { name: `test-${randomUUID().slice(0, 8)}`, userId: owner.id, ...data },
+    });
+    if (status !== 200) throw new Error(`Failed to create instance: ${JSON.stringify(body)}`);
+
+    return { id: body.data.id, token: body.data.token };
+}
+
+/**
+ * Connect and scan, leaving the instance connected
+ */
+export async function connectInstance(owner: TestUser, instance: TestInstance) {
+    await api('POST', `/instance/${instance.id}/connect`, { headers: bearer(owner) });
+    engine.simulateScan(instance.id);
+}
+
+/**
+ * Poll until the check returns a truthy value (acks and webhooks arrive asynchronously)
+ */
+export async function waitFor<T>(check: () => T | Promise<T>, timeout = 5000): Promise<NonNullable<T>> {
+    const deadline = Date.now() + timeout;
+
+    for (;;) {
+        const value = await check();
+        if (value) return value as NonNullable<T>;
+        if (Date.now() > deadline) throw new Error('Timed out waiting for condition');
+        await new Promise((resolve) => setTimeout(resolve, 25));
+    }
+}
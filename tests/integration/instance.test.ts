@@ -0,0 +1,77 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { prisma } from '../../src/lib/prisma.js';
+import { api, bearer, createInstance, createUser, engine, TestInstance, TestUser, waitFor } from './helpers.js';
+
+describe('instance connection', () => {
+    let owner: TestUser;
+    let instance: TestInstance;
+
+    beforeAll(async () => {
+        owner = await createUser();
+        instance = await createInstance(owner);
+    });
+
+    afterAll(async () => {
+        await engine.logout(instance.id);
+        await prisma.$disconnect();
+    });
+
+    it('rejects requests without a token', async () => {
+        const { status } = await api('POST', `/instance/${instance.id}/connect`);
+        expect(status).toBe(401);
+    });
+
+    it('hides instances of other users', async () => {
+        const stranger = await createUser();
+        const { status } = await api('GET', `/instance/${instance.id}/status`, { headers: bearer(stranger) });
+        expect(status).toBe(404);
+    });
+
+    it('shows a QR code on connect', async () => {
+        const { status, body } = await api('POST', `/instance/${instance.id}/connect`, { headers: bearer(owner) });
+
+        expect(status).toBe(200);
+        expect(body.data.status).toBe('qr');
+        expect(body.data.qrCode).toMatch(/^data:image\/png;base64,/);
+
+        const qr = await api('GET', `/instance/${instance.id}/qr`, { headers: bearer(owner) });
+        expect(qr.body.data.qrCode).toBe(body.data.qrCode);
+        expect(engine.getQRCode(instance.id).qr).toBe(`fake-qr:${instance.id}:1`);
+    });
+
+    it('connects once the QR is scanned', async () => {
+        engine.simulateScan(instance.id);
+
+        const { body } = await api('GET', `/instance/${instance.id}/status`, { headers: bearer(owner) });
+        expect(body.data.status).toBe('connected');
+        expect(body.data.qrCode).toBeUndefined();
+
+        const qr = await api('GET', `/instance/${instance.id}/qr`, { headers: bearer(owner) });
+        expect(qr.body.data.status).toBe('connected');
+    });
+
+    it('persists the transitions and the linked number', async () => {
+        const stored = await waitFor(() => prisma.instance.findFirst({
+            where: { id: instance.id, status: 'CONNECTED', waNumber: { not: null } },
+        }));
+        expect(stored.statusReason).toBe('ready');
+
+        // Several transitions can share a millisecond, so compare them unordered
+        const log = await prisma.instanceStatusLog.findMany({ where: { instanceId: instance.id } });
+        expect(log.map((entry) => `${entry.from}>${entry.to}`).sort()).toEqual([
+            'DISCONNECTED>INITIALIZING',
+            'INITIALIZING>LOADING',
+            'LOADING>QR',
+            'QR>SYNCING',
+            'SYNCING>CONNECTED',
+        ].sort());
+    });
+
+    it('restores the session without a QR after a disconnect', async () => {
+        await api('POST', `/instance/${instance.id}/disconnect`, { headers: bearer(owner) });
+
+        const { body } = await api('POST', `/instance/${instance.id}/connect`, { headers: bearer(owner) });
+        expect(body.data.status).toBe('connected');
+        expect(body.data.message).toBe('Already connected');
+    });
+});
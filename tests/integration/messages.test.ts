@@ -0,0 +1,94 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { prisma } from '../../src/lib/prisma.js';
+import { applyEarlyAck, MessageAck } from '../../src/lib/engine.js';
+import { setupMessageStore } from '../../src/lib/message-store.js';
+import { api, connectInstance, createInstance, createUser, engine, instanceAuth, TestInstance, waitFor } from './helpers.js';
+
+describe('sending messages', () => {
+    let instance: TestInstance;
+
+    beforeAll(async () => {
+        setupMessageStore(engine);
+
+        const owner = await createUser();
+        instance = await createInstance(owner);
+        await connectInstance(owner, instance);
+    });
+
+    afterAll(async () => {
+        await engine.logout(instance.id);
+        await prisma.$disconnect();
+    });
+
+    // What the campaign worker writes once the engine returns the id
+    async function recordSend(messageId: string, waMessageId: string) {
+        await prisma.message.updateMany({
+            where: { id: messageId, status: 'PENDING' },
+            data: { status: 'SENT', waMessageId, sentAt: new Date() },
+        });
+        await applyEarlyAck(waMessageId);
+    }
+
+    async function storedAck(waMessageId: string) {
+        const { body } = await api('GET', '/messages?chatId=5511999990001', { headers: instanceAuth(instance) });
+        return body.data.messages.find((m: { waMessageId: string }) => m.waMessageId === waMessageId)?.ack;
+    }
+
+    it('requires the instance token', async () => {
+        const { status } = await api('POST', '/message/text', { body: { to: '5511999990001', text: 'hi' } });
+        expect(status).toBe(401);
+    });
+
+    it('advances Message.status with the acks', async () => {
+        const message = await prisma.message.create({ data: { to: '5511999990001', content: { type: 'text', text: 'hello' } } });
+
+        const { status, body } = await api('POST', '/message/text', {
+            headers: instanceAuth(instance),
+            body: { to: '5511999990001', text: 'hello' },
+        });
+        expect(status).toBe(200);
+        expect(body.data).toMatchObject({ ack: MessageAck.PENDING, to: '5511999990001@c.us' });
+
+        await recordSend(message.id, body.data.id);
+
+        await waitFor(() => prisma.message.findFirst({ where: { id: message.id, status: 'READ' } }));
+        await waitFor(async () => await storedAck(body.data.id) === MessageAck.READ);
+    });
+
+    it('keeps acks that arrive before the send is recorded', async () => {
+        const message = await prisma.message.create({ data: { to: '5511999990001', content: { type: 'text', text: 'early' } } });
+
+        const { body } = await api('POST', '/message/text', {
+            headers: instanceAuth(instance),
+            body: { to: '5511999990001', text: 'early' },
+        });
+
+        // Every ack has landed; Message.status is tracked alongside the history, give it a moment to settle
+        await waitFor(async () => await storedAck(body.data.id) === MessageAck.READ);
+        await new Promise((resolve) => setTimeout(resolve, 100));
+        expect((await prisma.message.findUniqueOrThrow({ where: { id: message.id } })).status).toBe('PENDING');
+
+        await recordSend(message.id, body.data.id);
+        expect((await prisma.message.findUniqueOrThrow({ where: { id: message.id } })).status).toBe('READ');
+    });
+
+    it('fails for numbers that are not on WhatsApp', async () => {
+        const { status, body } = await api('POST', '/message/text', {
+            headers: instanceAuth(instance),
+            body: { to: '0001234567', text: 'hello' },
+        });
+
+        expect(status).toBe(500);
+        expect(body.error).toContain('Number not on WhatsApp');
+    });
+
+    it('answers 404 for unknown message ids', async () => {
+        const { status, body } = await api('POST', '/message/react', {
+            headers: instanceAuth(instance),
+            body: { messageId: 'true_5511999990001@c.us_missing', reaction: '👍' },
+        });
+
+        expect(status).toBe(404);
+        expect(body.error).toContain('Message not found');
+    });
+});
@@ -0,0 +1,92 @@
+import { createServer, Server } from 'http';
+import type { AddressInfo } from 'net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { prisma } from '../../src/lib/prisma.js';
+import { setupMessageStore } from '../../src/lib/message-store.js';
+import { setupWebhookListeners } from '../../src/modules/webhooks/webhooks.routes.js';
+import { api, bearer, connectInstance, createInstance, createUser, engine, instanceAuth, TestInstance, TestUser, waitFor } from './helpers.js';
+
+interface ReceivedWebhook {
+    event: string;
+    instanceId: string;
+    data: any;
+}
+
+describe('inbound messages', () => {
+    const received: ReceivedWebhook[] = [];
+    let receiver: Server;
+    let owner: TestUser;
+    let instance: TestInstance;
+
+    beforeAll(async () => {
+        receiver = createServer((req, res) => {
+            let body = '';
+            req.on('data', (chunk) => body += chunk);
+            req.on('end', () => {
+                received.push(JSON.parse(body));
+                res.end('ok');
+            });
+        });
+        await new Promise<void>((resolve) => receiver.listen(0, '127.0.0.1', resolve));
+        const { port } = receiver.address() as AddressInfo;
+
+        setupWebhookListeners();
+        setupMessageStore(engine);
+
+        owner = await createUser();
+        instance = await createInstance(owner, {
+            webhookUrl: `http://127.0.0.1:${port}/hook`,
+            webhookEvents: ['message'],
+        });
+    });
+
+    afterAll(async () => {
+        await engine.logout(instance.id);
+        await new Promise((resolve) => receiver.close(resolve));
+        await prisma.$disconnect();
+    });
+
+    const messagesFrom = (chatId: string) => received.filter((hook) => hook.data.message?.from === chatId);
+
+    it('dispatches received messages to the instance webhook', async () => {
+        await connectInstance(owner, instance);
+        engine.simulateInbound(instance.id, '5511988887777', 'oi');
+
+        const hook = await waitFor(() => messagesFrom('5511988887777@c.us')[0]);
+        expect(hook).toMatchObject({
+            event: 'message',
+            instanceId: instance.id,
+            data: { message: { body: 'oi', fromMe: false, isGroup: false } },
+        });
+
+        // Only the subscribed events are sent
+        expect(received.every((hook) => hook.event === 'message')).toBe(true);
+    });
+
+    it('applies ignoreGroups patched while offline on the next connect', async () => {
+        await api('POST', `/instance/${instance.id}/disconnect`, { headers: bearer(owner) });
+
+        const { status } = await api('PATCH', `/instance/${instance.id}/settings`, {
+            headers: bearer(owner),
+            body: { ignoreGroups: true },
+        });
+        expect(status).toBe(200);
+
+        await api('POST', `/instance/${instance.id}/connect`, { headers: bearer(owner) });
+        expect(engine.getInstanceSettings(instance.id).ignoreGroups).toBe(true);
+    });
+
+    it('keeps group messages out of the webhook but stores them', async () => {
+        engine.simulateInbound(instance.id, '120363000000-1', 'grupo', { author: '5511977776666' });
+        engine.simulateInbound(instance.id, '5511988887777', 'depois do grupo');
+
+        await waitFor(() => messagesFrom('5511988887777@c.us').length === 2);
+        expect(messagesFrom('120363000000-1@g.us')).toHaveLength(0);
+
+        const stored = await waitFor(async () => {
+            const { body } = await api('GET', '/messages?chatId=120363000000-1@g.us', { headers: instanceAuth(instance) });
+            return body.data.messages.length && body.data.messages;
+        });
+        expect(stored).toMatchObject([{ body: 'grupo', isGroup: true, direction: 'inbound' }]);
+    });
+});
@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+    test: {
+        // Integration suites need Postgres and Redis: npm run test:integration
+        exclude: ['node_modules/**', 'dist/**', 'frontend/**', 'tests/integration/**'],
+        passWithNoTests: true,
+    },
+});